@@ -1,101 +1,129 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
-import { AppStatus, PresetPrompt, HistoryItem } from './types';
-import { editImageWithGemini, analyzeImageScene } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { AppStatus, PresetPrompt, HistoryItem, OutputMode, KeyingSettings, ProcessingProgress, ExportSubject, GenerationSettings, MaskOperation, MaskPass, SceneAnalysis } from './types';
+import { getProvider, loadProviderId, saveProviderId } from './services/providers';
+import { GenerationError, generateWithRetry, loadGenerationSettings, saveGenerationSettings } from './services/generation';
+import { runPunchJob, isAbortError } from './services/punchWorker';
+import { blobToDataUrl, composePasses } from './services/imageProcessing';
+import { activePasses, createMaskPass, describePasses } from './services/maskPasses';
+import { buildRegionClause, recommendPreset } from './services/sceneAnalysis';
+import { downloadBlob } from './services/exporters';
+import { PickedImage, imageFromDataTransfer, mayContainImage } from './services/imageInput';
+import {
+  listHistory,
+  addHistoryEntry,
+  NewHistoryEntry,
+  deleteHistoryItem,
+  setHistoryPinned,
+  setHistoryComposite,
+  enforceHistoryQuota,
+  exportHistoryArchive,
+  importHistoryArchive,
+  loadHistoryQuotaMb,
+  saveHistoryQuotaMb
+} from './services/historyStore';
+import { DEFAULT_KEYING } from './services/keyer';
+import { loadPresets, savePresets, renderPresetPrompt } from './services/presetLibrary';
 import { Button } from './components/Button';
 import { ImageUploader } from './components/ImageUploader';
+import { CameraCapture } from './components/CameraCapture';
+import { KeyingControls } from './components/KeyingControls';
+import { MaskEditor } from './components/MaskEditor';
+import { CompositorPanel } from './components/CompositorPanel';
+import { CompareViewer } from './components/CompareViewer';
+import { PassList } from './components/PassList';
+import { SceneOverlay } from './components/SceneOverlay';
+import { HistoryPanel } from './components/HistoryPanel';
+import { BatchPanel } from './components/BatchPanel';
+import { EvaluationPanel } from './components/EvaluationPanel';
+import { PresetManager } from './components/PresetManager';
+import { ExportMenu } from './components/ExportMenu';
+import { SettingsMenu } from './components/SettingsMenu';
+import { useI18n } from './components/I18nProvider';
+import { LOCALES, MessageKey, describeError, generationErrorKey, localizePreset, localizeProvider } from './services/i18n';
 
-const PRESETS: PresetPrompt[] = [
-  {
-    id: 'window-punch',
-    label: 'Punched Windows',
-    description: 'Make window views transparent.',
-    text: 'Edit this image: Locate all window glass. Replace ONLY the view seen through the windows with solid pure green #00FF00. Do not change the window frames, curtains, or any interior items.'
-  },
-  {
-    id: 'remove-bg',
-    label: 'Punched Background',
-    description: 'Transparent background around subject.',
-    text: 'Edit this image: Identify the main subject in the foreground. Replace the entire background behind them with solid pure green #00FF00. Keep the subject exactly as they are.'
-  }
-];
-
-const processImageTransparency = async (
-  base64Str: string, 
-  targetWidth?: number, 
-  targetHeight?: number
-): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-    img.onload = () => {
-      const w = img.width;
-      const h = img.height;
-      
-      const tempCanvas = document.createElement('canvas');
-      tempCanvas.width = w;
-      tempCanvas.height = h;
-      const tempCtx = tempCanvas.getContext('2d', { willReadFrequently: true });
-      if (!tempCtx) {
-        reject(new Error('Canvas context not available'));
-        return;
-      }
-
-      tempCtx.drawImage(img, 0, 0);
-      const imageData = tempCtx.getImageData(0, 0, w, h);
-      const data = imageData.data;
-
-      const minGreen = 40; 
-      const dominanceThreshold = 10;
-
-      for (let i = 0; i < data.length; i += 4) {
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
-        
-        const isGreen = g > r + dominanceThreshold && g > b + dominanceThreshold && g > minGreen;
-
-        if (isGreen) {
-          data[i + 3] = 0; 
-        }
-      }
-      
-      tempCtx.putImageData(imageData, 0, 0);
-
-      const resize = (canvas: HTMLCanvasElement): string => {
-         if (targetWidth && targetHeight && (targetWidth !== w || targetHeight !== h)) {
-             const finalCanvas = document.createElement('canvas');
-             finalCanvas.width = targetWidth;
-             finalCanvas.height = targetHeight;
-             const finalCtx = finalCanvas.getContext('2d');
-             if (!finalCtx) return canvas.toDataURL();
-             finalCtx.drawImage(canvas, 0, 0, targetWidth, targetHeight);
-             return finalCanvas.toDataURL('image/png');
-         }
-         return canvas.toDataURL('image/png');
-      };
-
-      resolve(resize(tempCanvas));
-    };
-    img.onerror = () => reject(new Error('Failed to process mask transparency'));
-    img.src = base64Str;
-  });
+const ERROR_TITLES: Partial<Record<AppStatus, MessageKey>> = {
+  [AppStatus.RATE_LIMITED]: 'error.title.rateLimited',
+  [AppStatus.BLOCKED]: 'error.title.blocked',
+  [AppStatus.NO_IMAGE]: 'error.title.noImage',
+  [AppStatus.NETWORK_ERROR]: 'error.title.network',
+  [AppStatus.INVALID_KEY]: 'error.title.invalidKey',
+  [AppStatus.TIMED_OUT]: 'error.title.timedOut'
 };
 
+// Failures the user can usefully retry as-is.
+const RETRYABLE_STATUSES = [AppStatus.RATE_LIMITED, AppStatus.NO_IMAGE, AppStatus.NETWORK_ERROR, AppStatus.TIMED_OUT, AppStatus.ERROR];
+
 const App: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [sourceImage, setSourceImage] = useState<string | null>(null);
   const [originalDims, setOriginalDims] = useState<{w: number, h: number} | null>(null);
   const [mimeType, setMimeType] = useState<string>('image/png');
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
-  const [prompt, setPrompt] = useState<string>(PRESETS[0].text);
+  const [passes, setPasses] = useState<MaskPass[]>([]);
+  const punchCacheRef = useRef(new Map<string, { key: string; image: string }>());
+  const [keying, setKeying] = useState<KeyingSettings>(DEFAULT_KEYING);
+  const [isRefining, setIsRefining] = useState(false);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
+  const generateJobRef = useRef<AbortController | null>(null);
+  const [presets, setPresets] = useState<PresetPrompt[]>(loadPresets);
+  const [selectedPresetId, setSelectedPresetId] = useState<string>(() => presets[0].id);
   const [usePro, setUsePro] = useState(false);
+  const [providerId, setProviderId] = useState<string>(loadProviderId);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(loadGenerationSettings);
+  const [outputMode, setOutputMode] = useState<OutputMode>('original');
   const [error, setError] = useState<string | null>(null);
-  const [analysis, setAnalysis] = useState<string | null>(null);
+  const [analysis, setAnalysis] = useState<SceneAnalysis | null>(null);
+  const [selectedWindowIds, setSelectedWindowIds] = useState<number[]>([]);
+  const analysisTargetRef = useRef<string | null>(null);
   const [history, setHistory] = useState<HistoryItem[]>([]);
-  const [fullViewImage, setFullViewImage] = useState<string | null>(null);
+  const [historyQuotaMb, setHistoryQuotaMb] = useState<number>(loadHistoryQuotaMb);
+  const [historyBusy, setHistoryBusy] = useState(false);
+  const [fullView, setFullView] = useState<ExportSubject | null>(null);
+  const [resultMeta, setResultMeta] = useState<Pick<ExportSubject, 'promptUsed' | 'usePro'>>({});
+  const [isEditingMask, setIsEditingMask] = useState(false);
+  const [isCompositing, setIsCompositing] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const [compositeImage, setCompositeImage] = useState<string | null>(null);
+  const [showComposite, setShowComposite] = useState(false);
+  const [currentHistoryId, setCurrentHistoryId] = useState<string | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
+  const selectedPreset = presets.find(p => p.id === selectedPresetId) ?? presets[0];
+  const selectedPresetLabel = localizePreset(selectedPreset, t).label;
+  const prompt = useMemo(() => {
+    const base = renderPresetPrompt(selectedPreset, keying.keyColor);
+    const chosen = analysis?.windows.filter(w => selectedWindowIds.includes(w.id)) ?? [];
+    return chosen.length ? base + buildRegionClause(chosen) : base;
+  }, [selectedPreset, keying.keyColor, analysis, selectedWindowIds]);
+  const [workspace, setWorkspace] = useState<'single' | 'batch' | 'evaluate'>('single');
+  const provider = getProvider(providerId);
+
+  const handleProviderChange = (id: string) => {
+    setProviderId(id);
+    saveProviderId(id);
+  };
+
+  // The window restriction only makes sense for the preset it was picked for.
+  const handlePresetSelect = (id: string) => {
+    if (id === selectedPresetId) return;
+    setSelectedPresetId(id);
+    setSelectedWindowIds([]);
+  };
+
+  const handleGenerationSettingsChange = (next: GenerationSettings) => {
+    setGenerationSettings(next);
+    saveGenerationSettings(next);
+  };
 
   const handleImageSelect = useCallback(async (base64: string, type: string) => {
+    // A new image (possibly pasted or dropped mid-run) replaces any cut in progress.
+    generateJobRef.current?.abort();
+    generateJobRef.current = null;
+    setProgress(null);
+
     const img = new Image();
     img.onload = () => setOriginalDims({ w: img.width, h: img.height });
     img.src = base64;
@@ -103,46 +131,403 @@ const App: React.FC = () => {
     setSourceImage(base64);
     setMimeType(type);
     setGeneratedImage(null);
+    setPasses([]);
+    punchCacheRef.current.clear();
+    setIsEditingMask(false);
+    setIsCompositing(false);
+    setIsComparing(false);
+    setIsCapturing(false);
+    setCompositeImage(null);
+    setCurrentHistoryId(null);
     setStatus(AppStatus.IDLE);
     setError(null);
     setAnalysis(null);
+    setSelectedWindowIds([]);
+    analysisTargetRef.current = base64;
 
     try {
-      const result = await analyzeImageScene(base64, type);
+      const result = await provider.analyzeScene({
+        image: base64,
+        mimeType: type,
+        presets: presets.map(({ id, label, description }) => ({ id, label, description }))
+      });
+      // A newer image may have been picked while this one was analysed.
+      if (analysisTargetRef.current !== base64) return;
       setAnalysis(result);
+      const recommended = recommendPreset(result, presets);
+      if (recommended) setSelectedPresetId(recommended);
     } catch (e) {
       console.warn("Analysis failed", e);
     }
+  }, [provider, presets]);
+
+  // Pasted and dropped images go through the same path as uploads. A drop
+  // or paste without any image is left alone; one that fails to load is reported.
+  const handleTransfer = useCallback(async (transfer: Promise<PickedImage | null>) => {
+    try {
+      const picked = await transfer;
+      if (picked) handleImageSelect(picked.base64, picked.mimeType);
+    } catch (e) {
+      console.warn("Image input failed", e);
+      setError(t('input.loadFailed'));
+    }
+  }, [handleImageSelect, t]);
+
+  // Open editors hold unsaved work that a new image would silently discard.
+  const acceptsImageInput = workspace === 'single' && !isEditingMask && !isCompositing && !isCapturing;
+
+  useEffect(() => {
+    if (!acceptsImageInput) return;
+    const onPaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      // Text fields keep normal paste behaviour.
+      if (!e.clipboardData || target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      e.preventDefault();
+      handleTransfer(imageFromDataTransfer(e.clipboardData));
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, [acceptsImageInput, handleTransfer]);
+
+  // Keys every active pass with the current settings, reusing results that
+  // are still valid, and merges them. A single pass is shown as keyed.
+  const composePassList = async (
+    list: MaskPass[],
+    signal: AbortSignal,
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<string | null> => {
+    const active = activePasses(list);
+    if (!sourceImage || active.length === 0) return null;
+    const key = JSON.stringify([keying, outputMode]);
+    const results: { image: string; operation: MaskOperation }[] = [];
+    for (const pass of active) {
+      const cached = punchCacheRef.current.get(pass.id);
+      const image = cached?.key === key ? cached.image : await runPunchJob(pass.modelOutput!, {
+        settings: keying,
+        mode: outputMode,
+        sourceBase64: sourceImage,
+        targetWidth: originalDims?.w,
+        targetHeight: originalDims?.h
+      }, { signal, onProgress });
+      punchCacheRef.current.set(pass.id, { key, image });
+      results.push({ image, operation: pass.operation });
+    }
+    return results.length === 1 ? results[0].image : composePasses(results, sourceImage, outputMode);
+  };
+
+  // Re-combine the passes whenever they are edited or the keying settings change.
+  useEffect(() => {
+    if (!sourceImage || activePasses(passes).length === 0) return;
+    const controller = new AbortController();
+    const timer = window.setTimeout(async () => {
+      // A running generation combines the passes itself when it finishes.
+      if (generateJobRef.current) return;
+      setIsRefining(true);
+      try {
+        const refined = await composePassList(passes, controller.signal);
+        if (refined && !controller.signal.aborted) {
+          setGeneratedImage(refined);
+          setResultMeta(meta => ({ ...meta, promptUsed: describePasses(passes) }));
+        }
+      } catch (e) {
+        if (!isAbortError(e)) console.warn("Preview refresh failed", e);
+      } finally {
+        if (!controller.signal.aborted) setIsRefining(false);
+      }
+    }, 150);
+    return () => {
+      controller.abort();
+      window.clearTimeout(timer);
+    };
+  }, [passes, keying, outputMode]);
+
+  const handlePresetsChange = (next: PresetPrompt[]) => {
+    setPresets(next);
+    savePresets(next);
+  };
+
+  const refreshHistory = useCallback(async () => {
+    try {
+      setHistory(await listHistory());
+    } catch (e) {
+      console.warn("History unavailable", e);
+    }
   }, []);
 
-  const handleGenerate = async () => {
-    if (!sourceImage) return;
+  useEffect(() => {
+    refreshHistory();
+  }, [refreshHistory]);
+
+  // History is best-effort: a storage failure must not fail the cut itself.
+  const addHistoryItem = async (entry: NewHistoryEntry) => {
+    try {
+      const item = await addHistoryEntry(entry, historyQuotaMb);
+      setCurrentHistoryId(item.id);
+      await refreshHistory();
+    } catch (e) {
+      console.warn("Failed to save history item", e);
+    }
+  };
 
+  // Generates one pass, then re-combines the whole list into the result.
+  const runPass = async (list: MaskPass[], passId: string) => {
+    const pass = list.find(p => p.id === passId);
+    if (!sourceImage || !pass) return;
+
+    generateJobRef.current?.abort();
+    const controller = new AbortController();
+    generateJobRef.current = controller;
+
+    setPasses(list);
     setStatus(AppStatus.PROCESSING);
+    setProgress({ stage: 'generating', completed: 0, total: 0 });
     setError(null);
-    setGeneratedImage(null);
+    setIsEditingMask(false);
+    setIsCompositing(false);
+    setIsComparing(false);
+    setCompositeImage(null);
+    setCurrentHistoryId(null);
 
     try {
-      const resultBase64 = await editImageWithGemini(sourceImage, mimeType, prompt, usePro);
-      const finalImage = await processImageTransparency(resultBase64, originalDims?.w, originalDims?.h);
+      const resultBase64 = await generateWithRetry(provider, { image: sourceImage, mimeType, prompt: pass.prompt, usePro }, {
+        settings: generationSettings,
+        signal: controller.signal,
+        onRetry: (attempt) => setProgress({ stage: 'generating', completed: 0, total: 0, attempt })
+      });
+      const next = list.map(p => (p.id === passId ? { ...p, modelOutput: resultBase64 } : p));
+      punchCacheRef.current.delete(passId);
+      setPasses(next);
 
+      setProgress({ stage: 'keying', completed: 0, total: 0 });
+      const finalImage = await composePassList(next, controller.signal, (completed, total) => {
+        setProgress({ stage: 'keying', completed, total });
+      });
+      if (controller.signal.aborted) return;
+      if (!finalImage) {
+        setStatus(generatedImage ? AppStatus.SUCCESS : AppStatus.IDLE);
+        return;
+      }
+
+      // Only a lone pass can be re-keyed from history.
+      const active = activePasses(next);
+      const promptUsed = describePasses(next);
       setGeneratedImage(finalImage);
-      setHistory(prev => [{
-        id: Date.now().toString(),
-        timestamp: Date.now(),
+      setResultMeta({ promptUsed, usePro });
+      addHistoryItem({
         original: sourceImage,
         generated: finalImage,
-        promptUsed: prompt,
-        thumbnail: finalImage
-      }, ...prev].slice(0, 10));
+        promptUsed,
+        modelOutput: active.length === 1 ? active[0].modelOutput : undefined,
+        keying,
+        usePro,
+        outputMode
+      });
       setStatus(AppStatus.SUCCESS);
     } catch (e: any) {
+      if (isAbortError(e)) return;
       console.error(e);
-      setError(e.message || "Failed to process image.");
-      setStatus(AppStatus.ERROR);
+      if (e instanceof GenerationError) {
+        setError(e.kind === 'unknown' && e.detail ? e.detail : t(generationErrorKey(e.kind)));
+        setStatus(e.status);
+      } else {
+        setError(describeError(e, 'error.processFailed', t));
+        setStatus(AppStatus.ERROR);
+      }
+    } finally {
+      if (generateJobRef.current === controller) {
+        generateJobRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  // Starts over with a single pass from the selected preset.
+  const handleGenerate = () => {
+    const pass = createMaskPass(selectedPresetLabel, prompt);
+    punchCacheRef.current.clear();
+    setGeneratedImage(null);
+    runPass([pass], pass.id);
+  };
+
+  const handleAddPass = (operation: MaskOperation) => {
+    const pass = createMaskPass(selectedPresetLabel, prompt, operation);
+    runPass([...passes, pass], pass.id);
+  };
+
+  // Retries the pass that failed to generate, if any, rather than starting over.
+  const handleRetry = () => {
+    const pending = passes.find(p => !p.modelOutput);
+    if (pending) runPass(passes, pending.id);
+    else handleGenerate();
+  };
+
+  const handleCancel = () => {
+    generateJobRef.current?.abort();
+    generateJobRef.current = null;
+    setProgress(null);
+    setStatus(AppStatus.IDLE);
+  };
+
+  // Manual edits are baked into the pixels, so the result is detached from
+  // the passes and no longer follows the keying sliders.
+  const handleApplyTouchUp = (edited: string) => {
+    if (!sourceImage) return;
+    setGeneratedImage(edited);
+    setPasses([]);
+    setIsEditingMask(false);
+    setCompositeImage(null);
+    const promptUsed = t('history.touchedUp', { prompt: resultMeta.promptUsed ?? prompt });
+    setResultMeta({ ...resultMeta, promptUsed });
+    addHistoryItem({
+      original: sourceImage,
+      generated: edited,
+      promptUsed,
+      usePro: resultMeta.usePro,
+      outputMode
+    });
+  };
+
+  // The composite is a snapshot: it is saved with the current cut but does
+  // not follow later keying changes.
+  const handleApplyComposite = async (composite: string) => {
+    setCompositeImage(composite);
+    setShowComposite(true);
+    setIsCompositing(false);
+    try {
+      if (currentHistoryId && await setHistoryComposite(currentHistoryId, composite, historyQuotaMb)) {
+        await refreshHistory();
+        return;
+      }
+    } catch (e) {
+      console.warn("Failed to save composite", e);
+      return;
+    }
+    if (!sourceImage || !generatedImage) return;
+    addHistoryItem({
+      original: sourceImage,
+      generated: generatedImage,
+      composite,
+      promptUsed: resultMeta.promptUsed ?? prompt,
+      usePro: resultMeta.usePro,
+      outputMode
+    });
+  };
+
+  const restoreHistoryItem = async (item: HistoryItem) => {
+    // A cut still running belongs to the previous source.
+    generateJobRef.current?.abort();
+    generateJobRef.current = null;
+    setProgress(null);
+    const [original, generated, model, composite] = await Promise.all([
+      blobToDataUrl(item.original),
+      blobToDataUrl(item.generated),
+      item.modelOutput ? blobToDataUrl(item.modelOutput) : Promise.resolve(null),
+      item.composite ? blobToDataUrl(item.composite) : Promise.resolve(null)
+    ]);
+    setIsEditingMask(false);
+    setIsCompositing(false);
+    setIsComparing(false);
+    setIsCapturing(false);
+    setCompositeImage(composite);
+    setShowComposite(Boolean(composite));
+    setCurrentHistoryId(item.id);
+    setAnalysis(null);
+    setSelectedWindowIds([]);
+    analysisTargetRef.current = null;
+    setSourceImage(original);
+    setMimeType(item.original.type || 'image/png');
+    setGeneratedImage(generated);
+    // A stored model output becomes a single pass, pre-keyed with the stored settings.
+    punchCacheRef.current.clear();
+    if (model) {
+      const pass = { ...createMaskPass(t('punch.restoredPass'), item.promptUsed), modelOutput: model };
+      punchCacheRef.current.set(pass.id, { key: JSON.stringify([item.keying ?? keying, item.outputMode ?? outputMode]), image: generated });
+      setPasses([pass]);
+    } else {
+      setPasses([]);
+    }
+    setResultMeta({ promptUsed: item.promptUsed, usePro: item.usePro });
+    if (item.keying) setKeying(item.keying);
+    if (item.outputMode) setOutputMode(item.outputMode);
+    setStatus(AppStatus.SUCCESS);
+  };
+
+  const handleDeleteHistory = async (item: HistoryItem) => {
+    try {
+      await deleteHistoryItem(item.id);
+      await refreshHistory();
+    } catch (e: any) {
+      setError(describeError(e, 'error.historyUpdate', t));
+    }
+  };
+
+  const handleTogglePin = async (item: HistoryItem) => {
+    try {
+      await setHistoryPinned(item.id, !item.pinned);
+      await refreshHistory();
+    } catch (e: any) {
+      setError(describeError(e, 'error.historyUpdate', t));
+    }
+  };
+
+  const handleQuotaChange = async (mb: number) => {
+    setHistoryQuotaMb(mb);
+    saveHistoryQuotaMb(mb);
+    try {
+      await enforceHistoryQuota(mb);
+      await refreshHistory();
+    } catch (e: any) {
+      setError(describeError(e, 'error.historyUpdate', t));
     }
   };
 
+  const handleExportHistory = async () => {
+    setHistoryBusy(true);
+    try {
+      const archive = await exportHistoryArchive(history);
+      downloadBlob(archive, `alphapunch-history-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (e: any) {
+      setError(describeError(e, 'error.historyExport', t));
+    } finally {
+      setHistoryBusy(false);
+    }
+  };
+
+  const handleImportHistory = async (file: File) => {
+    setHistoryBusy(true);
+    try {
+      await importHistoryArchive(file, historyQuotaMb);
+      await refreshHistory();
+    } catch (e: any) {
+      setError(describeError(e, 'error.historyImport', t));
+    } finally {
+      setHistoryBusy(false);
+    }
+  };
+
+  const shownImage = showComposite && compositeImage ? compositeImage : generatedImage;
+
+  const currentSubject: ExportSubject | null = shownImage ? {
+    image: shownImage,
+    original: sourceImage,
+    promptUsed: resultMeta.promptUsed,
+    usePro: resultMeta.usePro,
+    outputMode,
+    keying
+  } : null;
+
+  const viewHistoryItem = async (item: HistoryItem) => {
+    const [image, original] = await Promise.all([blobToDataUrl(item.generated), blobToDataUrl(item.original)]);
+    setFullView({
+      image,
+      original,
+      promptUsed: item.promptUsed,
+      usePro: item.usePro,
+      outputMode: item.outputMode,
+      keying: item.keying
+    });
+  };
+
   return (
     <div className="min-h-screen bg-[#050505] text-slate-200 font-sans flex flex-col relative">
       {/* Header */}
@@ -157,25 +542,64 @@ const App: React.FC = () => {
             </div>
             <div>
               <h1 className="text-xl font-bold text-white tracking-tight">AlphaPunch <span className="text-indigo-500">v2</span></h1>
-              <p className="text-[10px] text-slate-500 font-mono uppercase tracking-widest">Precision Transparency & Window Masking</p>
+              <p className="text-[10px] text-slate-500 font-mono uppercase tracking-widest">{t('app.tagline')}</p>
             </div>
           </div>
           
           <div className="flex items-center space-x-6">
+            <div className="flex items-center bg-white/5 rounded-full p-1 border border-white/10">
+              <button 
+                onClick={() => setWorkspace('single')}
+                className={`px-4 py-1.5 rounded-full text-xs font-bold transition-all ${workspace === 'single' ? 'bg-white/10 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                {t('workspace.single')}
+              </button>
+              <button 
+                onClick={() => setWorkspace('batch')}
+                className={`px-4 py-1.5 rounded-full text-xs font-bold transition-all ${workspace === 'batch' ? 'bg-white/10 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                {t('workspace.batch')}
+              </button>
+              <button 
+                onClick={() => setWorkspace('evaluate')}
+                className={`px-4 py-1.5 rounded-full text-xs font-bold transition-all ${workspace === 'evaluate' ? 'bg-white/10 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                {t('workspace.evaluate')}
+              </button>
+            </div>
             <div className="flex items-center bg-white/5 rounded-full p-1 border border-white/10">
               <button 
                 onClick={() => setUsePro(false)}
                 className={`px-4 py-1.5 rounded-full text-xs font-bold transition-all ${!usePro ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
               >
-                Standard
+                {t('model.standard')}
               </button>
               <button 
                 onClick={() => setUsePro(true)}
                 className={`px-4 py-1.5 rounded-full text-xs font-bold transition-all ${usePro ? 'bg-indigo-600 text-white shadow-[0_0_15px_rgba(79,70,229,0.4)]' : 'text-slate-400 hover:text-white'}`}
               >
-                Pro Quality
+                {t('model.pro')}
               </button>
             </div>
+            <div className="flex items-center bg-white/5 rounded-full p-1 border border-white/10" role="group" aria-label={t('app.language')}>
+              {LOCALES.map(l => (
+                <button
+                  key={l.id}
+                  onClick={() => setLocale(l.id)}
+                  title={l.label}
+                  lang={l.id}
+                  className={`px-3 py-1.5 rounded-full text-xs font-bold transition-all ${locale === l.id ? 'bg-white/10 text-white' : 'text-slate-400 hover:text-white'}`}
+                >
+                  {l.short}
+                </button>
+              ))}
+            </div>
+            <SettingsMenu
+              providerId={providerId}
+              onProviderChange={handleProviderChange}
+              generation={generationSettings}
+              onGenerationChange={handleGenerationSettingsChange}
+            />
           </div>
         </div>
       </header>
@@ -185,34 +609,69 @@ const App: React.FC = () => {
         {/* Left Sidebar */}
         <div className="lg:col-span-3 space-y-6">
           <section className="bg-white/[0.03] border border-white/10 rounded-3xl p-6 shadow-2xl">
-            <h2 className="text-xs font-black text-slate-500 uppercase tracking-widest mb-4">Input Image</h2>
+            <h2 className="text-xs font-black text-slate-500 uppercase tracking-widest mb-4">{t('section.input')}</h2>
             <ImageUploader onImageSelected={handleImageSelect} currentImage={sourceImage} />
+            <div className="mt-3 flex items-center justify-between gap-3">
+              <button
+                onClick={() => {
+                  setWorkspace('single');
+                  setIsCapturing(true);
+                }}
+                disabled={status === AppStatus.PROCESSING}
+                title={t('input.cameraTitle')}
+                className="flex items-center space-x-2 px-3 py-1.5 rounded-xl text-[11px] font-bold text-slate-300 bg-white/5 hover:bg-white/10 disabled:opacity-30"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
+                </svg>
+                <span>{t('input.camera')}</span>
+              </button>
+              <span className="text-[10px] text-slate-600 text-right">{t('input.pasteHint')}</span>
+            </div>
             
-            {analysis && (
+            {analysis && sourceImage && (
               <div className="mt-4 p-3 rounded-xl bg-indigo-500/5 border border-indigo-500/10">
-                <p className="text-[10px] font-bold text-indigo-400 uppercase mb-1">Scene Analysis</p>
-                <p className="text-[11px] text-slate-400 leading-relaxed italic">"{analysis}"</p>
+                <p className="text-[10px] font-bold text-indigo-400 uppercase mb-2">{t('section.sceneAnalysis')}</p>
+                <SceneOverlay
+                  image={sourceImage}
+                  analysis={analysis}
+                  selectedIds={selectedWindowIds}
+                  onChange={setSelectedWindowIds}
+                />
               </div>
             )}
           </section>
 
           <section className="bg-white/[0.03] border border-white/10 rounded-3xl p-6 shadow-2xl">
-            <h2 className="text-xs font-black text-slate-500 uppercase tracking-widest mb-4">Select Mode</h2>
-            <div className="space-y-3">
-              {PRESETS.map((preset) => (
+            <h2 className="text-xs font-black text-slate-500 uppercase tracking-widest mb-4">{t('section.mode')}</h2>
+            <PresetManager
+              presets={presets}
+              selectedId={selectedPreset.id}
+              keyColor={keying.keyColor}
+              onSelect={handlePresetSelect}
+              onChange={handlePresetsChange}
+              onError={setError}
+            />
+
+            <div className="mt-6 pt-6 border-t border-white/5">
+              <p className="text-[10px] font-bold text-slate-500 uppercase mb-2">{t('section.outputPixels')}</p>
+              <div className="flex items-center bg-white/5 rounded-full p-1 border border-white/10">
                 <button
-                  key={preset.id}
-                  onClick={() => setPrompt(preset.text)}
-                  className={`w-full text-left p-4 rounded-2xl transition-all border ${
-                    prompt === preset.text
-                      ? 'bg-indigo-600/10 border-indigo-500/50 text-white ring-1 ring-indigo-500/20'
-                      : 'bg-black/20 border-white/5 text-slate-400 hover:border-white/10'
-                  }`}
+                  onClick={() => setOutputMode('original')}
+                  title={t('output.originalHint')}
+                  className={`flex-1 px-3 py-1.5 rounded-full text-[11px] font-bold transition-all ${outputMode === 'original' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
                 >
-                  <div className="font-bold text-sm">{preset.label}</div>
-                  <div className="text-[10px] opacity-60 mt-0.5">{preset.description}</div>
+                  {t('output.original')}
                 </button>
-              ))}
+                <button
+                  onClick={() => setOutputMode('regenerated')}
+                  title={t('output.regeneratedHint')}
+                  className={`flex-1 px-3 py-1.5 rounded-full text-[11px] font-bold transition-all ${outputMode === 'regenerated' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                >
+                  {t('output.regenerated')}
+                </button>
+              </div>
             </div>
 
             <div className="mt-6 pt-6 border-t border-white/5">
@@ -222,69 +681,200 @@ const App: React.FC = () => {
                 isLoading={status === AppStatus.PROCESSING}
                 className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-2xl font-black text-sm shadow-xl shadow-indigo-900/20"
               >
-                PUNCH ALPHA
+                {t('punch.action')}
               </Button>
             </div>
 
+            {passes.length > 0 && (
+              <div className="mt-6 pt-6 border-t border-white/5">
+                <p className="text-[10px] font-bold text-slate-500 uppercase mb-2">{t('section.passes')}</p>
+                <PassList
+                  passes={passes}
+                  presetLabel={selectedPresetLabel}
+                  busy={status === AppStatus.PROCESSING}
+                  onChange={setPasses}
+                  onRerun={(id) => runPass(passes, id)}
+                  onAdd={handleAddPass}
+                />
+              </div>
+            )}
+
             {error && (
               <div className="mt-4 p-4 rounded-xl bg-red-500/10 border border-red-500/30 text-red-400 text-xs leading-relaxed">
-                <div className="font-bold mb-1">Error Occurred:</div>
+                <div className="font-bold mb-1">{t(ERROR_TITLES[status] ?? 'error.title')}:</div>
                 {error}
+                {RETRYABLE_STATUSES.includes(status) && sourceImage && (
+                  <button
+                    onClick={handleRetry}
+                    className="block mt-3 text-[10px] font-bold uppercase tracking-widest text-red-300 hover:text-white"
+                  >
+                    {t('error.retry')}
+                  </button>
+                )}
               </div>
             )}
           </section>
+
+          <section className="bg-white/[0.03] border border-white/10 rounded-3xl p-6 shadow-2xl">
+            <h2 className="text-xs font-black text-slate-500 uppercase tracking-widest mb-4">{t('section.keying')}</h2>
+            <KeyingControls
+              settings={keying}
+              onChange={setKeying}
+              despillEnabled={outputMode === 'regenerated'}
+              isRefining={isRefining}
+            />
+          </section>
         </div>
 
         {/* Center: Main Viewport */}
         <div className="lg:col-span-7 flex flex-col gap-6">
-          <div className="flex-1 bg-black/40 border border-white/5 rounded-[40px] overflow-hidden relative shadow-inner min-h-[600px] flex items-center justify-center group/main">
+          <div
+            onDragOver={(e) => {
+              if (!acceptsImageInput || !mayContainImage(e.dataTransfer)) return;
+              e.preventDefault();
+              setIsDropTarget(true);
+            }}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDropTarget(false);
+            }}
+            onDrop={(e) => {
+              if (!acceptsImageInput) return;
+              e.preventDefault();
+              setIsDropTarget(false);
+              handleTransfer(imageFromDataTransfer(e.dataTransfer));
+            }}
+            className="flex-1 bg-black/40 border border-white/5 rounded-[40px] overflow-hidden relative shadow-inner min-h-[600px] flex items-center justify-center group/main"
+          >
             <div className="absolute inset-0 opacity-[0.03] pointer-events-none" style={{ backgroundImage: 'radial-gradient(#fff 1px, transparent 1px)', backgroundSize: '20px 20px' }}></div>
             
+            {isDropTarget && (
+              <div className="absolute inset-4 z-20 rounded-[32px] border-2 border-dashed border-indigo-500 bg-indigo-500/10 flex items-center justify-center pointer-events-none">
+                <p className="text-indigo-300 text-sm font-bold uppercase tracking-widest">{t('input.dropHere')}</p>
+              </div>
+            )}
+
             <div className="z-10 w-full h-full flex items-center justify-center p-8">
-              {status === AppStatus.PROCESSING ? (
+              {/* Kept mounted while hidden so running queues and their results survive a workspace switch. */}
+              <div className={workspace === 'batch' ? 'contents' : 'hidden'}>
+                <BatchPanel presets={presets} provider={provider} usePro={usePro} settings={keying} mode={outputMode} timeoutSec={generationSettings.timeoutSec} />
+              </div>
+              <div className={workspace === 'evaluate' ? 'contents' : 'hidden'}>
+                <EvaluationPanel presets={presets} provider={provider} presetId={selectedPreset.id} settings={keying} mode={outputMode} generation={generationSettings} />
+              </div>
+              {workspace !== 'single' ? null : status === AppStatus.PROCESSING ? (
                 <div className="text-center space-y-6">
                   <div className="relative w-20 h-20 mx-auto">
                     <div className="absolute inset-0 border-4 border-indigo-500/20 rounded-full"></div>
                     <div className="absolute inset-0 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
                   </div>
                   <div className="space-y-1">
-                    <p className="text-indigo-400 font-bold uppercase tracking-widest text-xs">Processing Mask</p>
-                    <p className="text-slate-500 text-[10px]">Gemini is analyzing pixels...</p>
+                    <p className="text-indigo-400 font-bold uppercase tracking-widest text-xs">{t('progress.title')}</p>
+                    <p className="text-slate-500 text-[10px]">
+                      {progress?.stage === 'keying'
+                        ? progress.total > 0
+                          ? t('progress.keyingTile', { completed: progress.completed, total: progress.total })
+                          : t('progress.preparingMatte')
+                        : progress?.attempt
+                          ? t('progress.retrying', { attempt: progress.attempt + 1, total: generationSettings.maxRetries + 1 })
+                          : t('progress.generating', { provider: localizeProvider(provider, t).label })}
+                    </p>
                   </div>
+                  {progress?.stage === 'keying' && progress.total > 0 && (
+                    <div className="w-56 h-1.5 mx-auto bg-white/5 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-indigo-500 transition-all duration-200"
+                        style={{ width: `${Math.round((progress.completed / progress.total) * 100)}%` }}
+                      ></div>
+                    </div>
+                  )}
+                  <button
+                    onClick={handleCancel}
+                    className="px-4 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest text-slate-400 border border-white/10 hover:text-white hover:border-red-500/50 hover:bg-red-500/10 transition-all"
+                  >
+                    {t('common.cancel')}
+                  </button>
                 </div>
-              ) : generatedImage ? (
+              ) : isCapturing ? (
+                <CameraCapture onCapture={handleImageSelect} onCancel={() => setIsCapturing(false)} />
+              ) : generatedImage && sourceImage && isEditingMask ? (
+                <MaskEditor
+                  image={generatedImage}
+                  original={sourceImage}
+                  outputMode={outputMode}
+                  onApply={handleApplyTouchUp}
+                  onCancel={() => setIsEditingMask(false)}
+                />
+              ) : shownImage && sourceImage && isComparing ? (
+                <CompareViewer original={sourceImage} result={shownImage} onClose={() => setIsComparing(false)} />
+              ) : generatedImage && isCompositing ? (
+                <CompositorPanel
+                  cut={generatedImage}
+                  onApply={handleApplyComposite}
+                  onCancel={() => setIsCompositing(false)}
+                />
+              ) : shownImage ? (
                 <div className="relative group max-w-full max-h-full">
                   <div className="absolute -inset-4 bg-indigo-600/20 blur-2xl opacity-0 group-hover:opacity-100 transition-opacity"></div>
                   <img 
-                    src={generatedImage} 
-                    alt="Punched Result" 
-                    onClick={() => setFullViewImage(generatedImage)}
+                    src={shownImage} 
+                    alt={t('result.alt')} 
+                    onClick={() => setFullView(currentSubject)}
                     className="max-w-full max-h-[70vh] object-contain rounded-2xl shadow-[0_20px_50px_rgba(0,0,0,0.5)] bg-[url('https://www.transparenttextures.com/patterns/cubes.png')] bg-[#0a0a0a] ring-1 ring-white/10 cursor-zoom-in hover:scale-[1.01] transition-transform duration-300"
                   />
+                  {compositeImage && (
+                    <div className="absolute top-4 left-4 flex items-center bg-black/50 backdrop-blur-md rounded-full p-1 border border-white/10">
+                      <button
+                        onClick={() => setShowComposite(false)}
+                        className={`px-3 py-1 rounded-full text-[11px] font-bold transition-all ${!showComposite ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                      >
+                        {t('result.cut')}
+                      </button>
+                      <button
+                        onClick={() => setShowComposite(true)}
+                        className={`px-3 py-1 rounded-full text-[11px] font-bold transition-all ${showComposite ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                      >
+                        {t('result.composite')}
+                      </button>
+                    </div>
+                  )}
                   <div className="absolute top-4 right-4 flex space-x-2">
                     <button 
-                      onClick={() => setFullViewImage(generatedImage)}
+                      onClick={() => setIsComparing(true)}
                       className="bg-black/50 backdrop-blur-md text-white p-2 rounded-xl hover:bg-indigo-600 transition-colors"
-                      title="Phóng to"
+                      title={t('result.compare')}
                     >
                       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v3m0 0v3m0-3h3m-3 0H7" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
                       </svg>
                     </button>
                     <button 
-                      onClick={() => {
-                        const link = document.createElement('a');
-                        link.href = generatedImage!;
-                        link.download = `alphapunch-${Date.now()}.png`;
-                        link.click();
-                      }}
-                      className="bg-white text-black px-4 py-2 rounded-xl text-xs font-black shadow-xl hover:bg-slate-200 transition-colors flex items-center space-x-2"
+                      onClick={() => setIsCompositing(true)}
+                      className="bg-black/50 backdrop-blur-md text-white p-2 rounded-xl hover:bg-indigo-600 transition-colors"
+                      title={t('result.compositeTitle')}
+                    >
+                      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                      </svg>
+                    </button>
+                    <button 
+                      onClick={() => setIsEditingMask(true)}
+                      className="bg-black/50 backdrop-blur-md text-white p-2 rounded-xl hover:bg-indigo-600 transition-colors"
+                      title={t('result.touchUp')}
                     >
-                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a2 2 0 002 2h12a2 2 0 002-2v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
                       </svg>
-                      <span>DOWNLOAD PNG</span>
                     </button>
+                    <button 
+                      onClick={() => setFullView(currentSubject)}
+                      className="bg-black/50 backdrop-blur-md text-white p-2 rounded-xl hover:bg-indigo-600 transition-colors"
+                      title={t('result.zoom')}
+                    >
+                      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v3m0 0v3m0-3h3m-3 0H7" />
+                      </svg>
+                    </button>
+                    <ExportMenu subject={currentSubject!} />
                   </div>
                 </div>
               ) : (
@@ -294,7 +884,7 @@ const App: React.FC = () => {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
                     </svg>
                   </div>
-                  <p className="text-slate-600 text-sm font-medium">Waiting for input...</p>
+                  <p className="text-slate-600 text-sm font-medium">{t('result.waiting')}</p>
                 </div>
               )}
             </div>
@@ -303,89 +893,41 @@ const App: React.FC = () => {
 
         {/* Right Sidebar: History */}
         <div className="lg:col-span-2 space-y-6">
-          <section className="bg-white/[0.03] border border-white/10 rounded-3xl p-6 h-full flex flex-col shadow-2xl">
-            <h2 className="text-xs font-black text-slate-500 uppercase tracking-widest mb-4">History</h2>
-            <div className="flex-1 overflow-y-auto space-y-4 pr-2 custom-scrollbar">
-              {history.length === 0 ? (
-                <div className="h-full flex flex-col items-center justify-center opacity-20">
-                  <div className="w-px h-12 bg-white/20 mb-4"></div>
-                  <p className="text-[10px] uppercase font-bold tracking-tighter">No Cuts</p>
-                </div>
-              ) : (
-                history.map((item) => (
-                  <div 
-                    key={item.id}
-                    className="group relative aspect-square bg-black border border-white/5 rounded-2xl overflow-hidden cursor-pointer hover:border-indigo-500 transition-all shadow-lg"
-                  >
-                    <img 
-                      src={item.thumbnail} 
-                      alt="History" 
-                      onClick={() => {
-                        setSourceImage(item.original);
-                        setGeneratedImage(item.generated);
-                        setStatus(AppStatus.SUCCESS);
-                      }}
-                      className="w-full h-full object-contain bg-[url('https://www.transparenttextures.com/patterns/cubes.png')] bg-[#0a0a0a]" 
-                    />
-                    <div className="absolute top-2 right-2 flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                      <button 
-                        onClick={() => setFullViewImage(item.generated)}
-                        className="bg-black/60 p-1.5 rounded-lg text-white hover:bg-indigo-600"
-                      >
-                        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v3m0 0v3m0-3h3m-3 0H7" />
-                        </svg>
-                      </button>
-                    </div>
-                    <div 
-                      onClick={() => {
-                        setSourceImage(item.original);
-                        setGeneratedImage(item.generated);
-                        setStatus(AppStatus.SUCCESS);
-                      }}
-                      className="absolute inset-0 bg-indigo-600/20 opacity-0 group-hover:opacity-100 flex items-center justify-center transition-all pointer-events-none"
-                    >
-                    </div>
-                  </div>
-                ))
-              )}
-            </div>
-          </section>
+          <HistoryPanel
+            items={history}
+            quotaMb={historyQuotaMb}
+            onQuotaChange={handleQuotaChange}
+            onSelect={restoreHistoryItem}
+            onView={viewHistoryItem}
+            onDelete={handleDeleteHistory}
+            onTogglePin={handleTogglePin}
+            onExport={handleExportHistory}
+            onImport={handleImportHistory}
+            busy={historyBusy}
+            selectDisabled={status === AppStatus.PROCESSING}
+          />
         </div>
       </main>
 
       {/* Footer */}
       <footer className="py-6 px-6 border-t border-white/5 text-center">
         <p className="text-[10px] text-slate-600 uppercase tracking-widest font-mono">
-          Powered by Gemini 2.5 & 3 Models • Advanced Chroma Keying Engine • 2024
+          {t('app.footer')}
         </p>
       </footer>
 
       {/* Full View Modal Overlay */}
-      {fullViewImage && (
+      {fullView && (
         <div 
           className="fixed inset-0 z-[100] flex items-center justify-center bg-black/95 backdrop-blur-xl animate-in fade-in duration-300"
-          onClick={() => setFullViewImage(null)}
+          onClick={() => setFullView(null)}
         >
           <div className="absolute top-6 right-8 flex items-center space-x-4">
-            <button 
-              onClick={(e) => {
-                e.stopPropagation();
-                const link = document.createElement('a');
-                link.href = fullViewImage;
-                link.download = `alphapunch-full-${Date.now()}.png`;
-                link.click();
-              }}
-              className="bg-white text-black px-6 py-2.5 rounded-full text-xs font-black shadow-2xl hover:bg-slate-200 transition-colors flex items-center space-x-2"
-            >
-              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 16v1a2 2 0 002 2h12a2 2 0 002-2v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-              </svg>
-              <span>LUƯ VỀ MÁY</span>
-            </button>
+            <ExportMenu subject={fullView} variant="large" />
             <button 
               className="p-3 bg-white/10 hover:bg-red-500 rounded-full text-white transition-all shadow-xl border border-white/10"
-              onClick={() => setFullViewImage(null)}
+              onClick={() => setFullView(null)}
+              title={t('common.close')}
             >
               <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" />
@@ -394,17 +936,23 @@ const App: React.FC = () => {
           </div>
           
           <div 
-            className="w-[90vw] h-[85vh] relative flex items-center justify-center p-4 cursor-default"
+            className="w-[90vw] h-[85vh] mt-12 relative flex items-center justify-center p-4 cursor-default"
             onClick={(e) => e.stopPropagation()}
           >
-            {/* Checkerboard Background for Alpha Preview */}
-            <div className="absolute inset-0 rounded-[40px] opacity-10 pointer-events-none" style={{ backgroundImage: 'linear-gradient(45deg, #ccc 25%, transparent 25%), linear-gradient(-45deg, #ccc 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #ccc 75%), linear-gradient(-45deg, transparent 75%, #ccc 75%)', backgroundSize: '40px 40px', backgroundPosition: '0 0, 0 20px, 20px -20px, -20px 0px' }}></div>
-            
-            <img 
-              src={fullViewImage} 
-              alt="Full Detail" 
-              className="max-w-full max-h-full object-contain rounded-xl shadow-[0_0_100px_rgba(0,0,0,1)] ring-1 ring-white/10 z-10"
-            />
+            {fullView.original ? (
+              <CompareViewer original={fullView.original} result={fullView.image} />
+            ) : (
+              <>
+                {/* Checkerboard Background for Alpha Preview */}
+                <div className="absolute inset-0 rounded-[40px] opacity-10 pointer-events-none" style={{ backgroundImage: 'linear-gradient(45deg, #ccc 25%, transparent 25%), linear-gradient(-45deg, #ccc 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #ccc 75%), linear-gradient(-45deg, transparent 75%, #ccc 75%)', backgroundSize: '40px 40px', backgroundPosition: '0 0, 0 20px, 20px -20px, -20px 0px' }}></div>
+
+                <img 
+                  src={fullView.image} 
+                  alt={t('result.fullViewAlt')} 
+                  className="max-w-full max-h-full object-contain rounded-xl shadow-[0_0_100px_rgba(0,0,0,1)] ring-1 ring-white/10 z-10"
+                />
+              </>
+            )}
           </div>
         </div>
       )}
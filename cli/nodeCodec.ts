@@ -0,0 +1,38 @@
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { ImageCodec } from '../types';
+
+// Pure-JS decoders, so the CLI needs no canvas or native image library.
+
+const MAX_JPEG_MEMORY_MB = 1024;
+
+const isPng = (bytes: Buffer) => bytes.length > 8 && bytes.readUInt32BE(0) === 0x89504e47;
+const isJpeg = (bytes: Buffer) => bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+
+/** Sniffs the format from the bytes; the extension or data URL type may lie. */
+export const mimeTypeOf = (bytes: Buffer): string | null =>
+  isPng(bytes) ? 'image/png' : isJpeg(bytes) ? 'image/jpeg' : null;
+
+export const toDataUrl = (bytes: Buffer, mimeType: string): string => `data:${mimeType};base64,${bytes.toString('base64')}`;
+
+const fromDataUrl = (dataUrl: string): Buffer => Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64');
+
+export const nodeCodec: ImageCodec = {
+  decode: async (dataUrl) => {
+    const bytes = fromDataUrl(dataUrl);
+    if (isPng(bytes)) {
+      const png = PNG.sync.read(bytes);
+      return { width: png.width, height: png.height, data: new Uint8ClampedArray(png.data.buffer, png.data.byteOffset, png.data.length) };
+    }
+    if (isJpeg(bytes)) {
+      const img = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true, maxMemoryUsageInMB: MAX_JPEG_MEMORY_MB });
+      return { width: img.width, height: img.height, data: new Uint8ClampedArray(img.data.buffer, img.data.byteOffset, img.data.length) };
+    }
+    throw new Error('Unsupported image format (PNG and JPEG only)');
+  },
+  encodePng: async ({ width, height, data }) => {
+    const png = new PNG({ width, height });
+    png.data = Buffer.from(data.buffer, data.byteOffset, data.length);
+    return toDataUrl(PNG.sync.write(png), 'image/png');
+  }
+};
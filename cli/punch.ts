@@ -0,0 +1,201 @@
+import { readdir, readFile, stat, mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { ImageProvider, KeyingSettings, OutputMode, PresetPrompt } from '../types';
+import { DEFAULT_GENERATION_SETTINGS, classifyError } from '../services/generation';
+import { DEFAULT_KEYING } from '../services/keyer';
+import { runPunchPipeline } from '../services/pipeline';
+import { DEFAULT_PRESETS, importPresets, renderPresetPrompt } from '../services/presetLibrary';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { mimeTypeOf, nodeCodec, toDataUrl } from './nodeCodec';
+
+const USAGE = `Usage: npm run punch -- [options] <file|directory>...
+
+Punches every PNG or JPEG given (directories are scanned for images) and
+writes transparent PNGs to the output directory.
+
+Options:
+  -o, --out <dir>          Output directory (default: punched)
+  -p, --preset <id>        Preset to run (default: ${DEFAULT_PRESETS[0].id})
+      --presets <file>     Preset library exported from the app
+      --prompt <text>      Custom prompt instead of a preset
+      --pro                Use the Pro model tier
+      --provider <id>      gemini or mock (default: gemini)
+      --mode <mode>        original or regenerated (default: original)
+      --key-color <hex>    Key colour (default: ${DEFAULT_KEYING.keyColor})
+      --tolerance <0-100>  Keying tolerance (default: ${DEFAULT_KEYING.tolerance})
+      --softness <0-100>   Keying softness (default: ${DEFAULT_KEYING.softness})
+      --choke <px>         Erode (+) or dilate (-) the kept area (default: ${DEFAULT_KEYING.choke})
+      --feather <px>       Matte blur radius (default: ${DEFAULT_KEYING.feather})
+      --despill <0-100>    Key-colour cast removal (default: ${DEFAULT_KEYING.despill})
+      --max-size <px>      Cap the output's long edge
+      --timeout <s>        Per-request timeout (default: ${DEFAULT_GENERATION_SETTINGS.timeoutSec})
+      --retries <n>        Retries for transient failures (default: ${DEFAULT_GENERATION_SETTINGS.maxRetries})
+  -r, --recursive          Descend into subdirectories
+      --list-presets       Print the available presets and exit
+  -h, --help               Show this help
+
+The Gemini provider reads its key from GEMINI_API_KEY.`;
+
+const IMAGE_EXTENSION = /\.(png|jpe?g)$/i;
+
+const fail = (message: string): never => {
+  console.error(`alphapunch: ${message}`);
+  process.exit(2);
+};
+
+const numberOption = (name: string, value: string | undefined, fallback: number, min: number, max: number): number => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < min || n > max) fail(`--${name} must be a number from ${min} to ${max}`);
+  return n;
+};
+
+const loadProvider = async (id: string): Promise<ImageProvider> => {
+  if (id === 'mock') return createMockProvider(nodeCodec);
+  if (id === 'gemini') {
+    process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+    if (!process.env.API_KEY) fail('set GEMINI_API_KEY to use the Gemini provider');
+    // Loaded on demand so mock runs never pull in the Gemini SDK.
+    return (await import('../services/providers/geminiProvider')).geminiProvider;
+  }
+  return fail(`unknown provider "${id}"`);
+};
+
+interface InputFile {
+  file: string;
+  relative: string; // Output path below --out, without extension
+}
+
+const collectInputs = async (inputs: string[], recursive: boolean, outDir: string): Promise<InputFile[]> => {
+  const found: InputFile[] = [];
+  const walk = async (dir: string, root: string) => {
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (recursive && path.resolve(full) !== outDir) await walk(full, root);
+      } else if (IMAGE_EXTENSION.test(entry.name)) {
+        found.push({ file: full, relative: path.relative(root, full).replace(IMAGE_EXTENSION, '') });
+      }
+    }
+  };
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => fail(`cannot read ${input}`));
+    if (info.isDirectory()) await walk(input, input);
+    else found.push({ file: input, relative: path.basename(input).replace(/\.[^.]+$/, '') });
+  }
+  return found;
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o', default: 'punched' },
+      preset: { type: 'string', short: 'p' },
+      presets: { type: 'string' },
+      prompt: { type: 'string' },
+      pro: { type: 'boolean', default: false },
+      provider: { type: 'string', default: 'gemini' },
+      mode: { type: 'string', default: 'original' },
+      'key-color': { type: 'string' },
+      tolerance: { type: 'string' },
+      softness: { type: 'string' },
+      choke: { type: 'string' },
+      feather: { type: 'string' },
+      despill: { type: 'string' },
+      'max-size': { type: 'string' },
+      timeout: { type: 'string' },
+      retries: { type: 'string' },
+      recursive: { type: 'boolean', short: 'r', default: false },
+      'list-presets': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  let presets: PresetPrompt[] = DEFAULT_PRESETS;
+  if (values.presets) {
+    const bytes = await readFile(values.presets).catch(() => fail(`cannot read ${values.presets}`));
+    presets = await importPresets(new Blob([bytes]), DEFAULT_PRESETS);
+  }
+  if (values['list-presets']) {
+    presets.forEach(p => console.log(`${p.id.padEnd(24)} ${p.label} — ${p.description}`));
+    return;
+  }
+  if (positionals.length === 0) fail(`no input files\n\n${USAGE}`);
+
+  if (values.mode !== 'original' && values.mode !== 'regenerated') fail('--mode must be original or regenerated');
+  const keyColor = values['key-color'] ?? DEFAULT_KEYING.keyColor;
+  if (!/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.test(keyColor)) fail('--key-color must be a hex colour such as #00FF00');
+  const settings: KeyingSettings = {
+    keyColor: keyColor.startsWith('#') ? keyColor : `#${keyColor}`,
+    tolerance: numberOption('tolerance', values.tolerance, DEFAULT_KEYING.tolerance, 0, 100),
+    softness: numberOption('softness', values.softness, DEFAULT_KEYING.softness, 0, 100),
+    choke: numberOption('choke', values.choke, DEFAULT_KEYING.choke, -50, 50),
+    feather: numberOption('feather', values.feather, DEFAULT_KEYING.feather, 0, 50),
+    despill: numberOption('despill', values.despill, DEFAULT_KEYING.despill, 0, 100)
+  };
+
+  let prompt = values.prompt;
+  if (!prompt) {
+    const id = values.preset ?? presets[0].id;
+    const preset = presets.find(p => p.id === id) ?? fail(`unknown preset "${id}" (see --list-presets)`);
+    prompt = renderPresetPrompt(preset, settings.keyColor);
+  }
+
+  const provider = await loadProvider(values.provider!);
+  const generation = {
+    timeoutSec: numberOption('timeout', values.timeout, DEFAULT_GENERATION_SETTINGS.timeoutSec, 0, 3600),
+    maxRetries: numberOption('retries', values.retries, DEFAULT_GENERATION_SETTINGS.maxRetries, 0, 10)
+  };
+  const maxSize = values['max-size'] ? numberOption('max-size', values['max-size'], 0, 1, 65536) : undefined;
+  const outDir = path.resolve(values.out!);
+  const inputs = await collectInputs(positionals, values.recursive!, outDir);
+  if (inputs.length === 0) fail('no PNG or JPEG files found');
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  let failed = 0;
+  for (const [index, input] of inputs.entries()) {
+    if (controller.signal.aborted) break;
+    const label = `[${index + 1}/${inputs.length}] ${input.file}`;
+    try {
+      const bytes = await readFile(input.file);
+      const mimeType = mimeTypeOf(bytes);
+      if (!mimeType) throw new Error('Not a PNG or JPEG file');
+      const { image } = await runPunchPipeline(toDataUrl(bytes, mimeType), mimeType, {
+        provider,
+        codec: nodeCodec,
+        prompt,
+        usePro: values.pro!,
+        settings,
+        mode: values.mode as OutputMode,
+        generation,
+        maxSize,
+        signal: controller.signal,
+        onRetry: (attempt, error) => console.error(`${label}: ${error.message} Retrying (${attempt}/${generation.maxRetries})...`)
+      });
+      const target = path.join(outDir, `${input.relative}.png`);
+      await mkdir(path.dirname(target), { recursive: true });
+      const png = await nodeCodec.encodePng(image);
+      await writeFile(target, Buffer.from(png.slice(png.indexOf(',') + 1), 'base64'));
+      console.log(`${label} -> ${path.relative(process.cwd(), target)}`);
+    } catch (e) {
+      if (controller.signal.aborted) break;
+      failed++;
+      const error = classifyError(e);
+      console.error(`${label}: ${error.kind === 'unknown' ? error.detail ?? error.message : error.message}`);
+    }
+  }
+
+  if (controller.signal.aborted) console.error('Cancelled.');
+  if (failed || controller.signal.aborted) process.exitCode = 1;
+};
+
+main().catch(e => fail(e?.message ?? String(e)));
@@ -0,0 +1,261 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BatchItem, BatchItemStatus, ImageProvider, KeyingSettings, OutputMode, PresetPrompt } from '../types';
+import { runBatchQueue, createBatchZip } from '../services/batchQueue';
+import { renderPresetPrompt } from '../services/presetLibrary';
+import { downloadBlob } from '../services/exporters';
+import { MessageKey, localizeError, localizePreset } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface BatchPanelProps {
+  presets: PresetPrompt[];
+  provider: ImageProvider;
+  usePro: boolean;
+  settings: KeyingSettings;
+  mode: OutputMode;
+  timeoutSec: number;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'text-slate-400 bg-white/5',
+  processing: 'text-indigo-300 bg-indigo-500/10 animate-pulse',
+  done: 'text-emerald-300 bg-emerald-500/10',
+  failed: 'text-red-300 bg-red-500/10'
+};
+
+const STATUS_LABELS: Record<BatchItemStatus, MessageKey> = {
+  queued: 'status.queued',
+  processing: 'status.processing',
+  done: 'status.done',
+  failed: 'status.failed'
+};
+
+const isImage = (file: File) => file.type.startsWith('image/');
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({ presets, provider, usePro, settings, mode, timeoutSec }) => {
+  const { t } = useI18n();
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [presetId, setPresetId] = useState(presets[0]?.id ?? '');
+  const [concurrency, setConcurrency] = useState(2);
+  const [maxRetries, setMaxRetries] = useState(2);
+  const [running, setRunning] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const filesRef = useRef<HTMLInputElement>(null);
+  const folderRef = useRef<HTMLInputElement>(null);
+
+  // Nothing else can stop an in-flight queue once the panel is gone.
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const addFiles = (files: FileList | File[]) => {
+    const next = Array.from(files).filter(isImage).map((file, i) => ({
+      id: `${Date.now()}-${i}-${file.name}`,
+      file,
+      status: 'queued' as const,
+      attempts: 0
+    }));
+    setItems(prev => [...prev, ...next]);
+  };
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const start = async (queue: BatchItem[]) => {
+    const preset = presets.find(p => p.id === presetId);
+    if (!preset || running) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    try {
+      await runBatchQueue(queue, {
+        provider,
+        prompt: renderPresetPrompt(preset, settings.keyColor),
+        usePro,
+        settings,
+        mode,
+        timeoutMs: timeoutSec * 1000
+      }, {
+        concurrency,
+        maxRetries,
+        signal: controller.signal,
+        onItemUpdate: updateItem
+      });
+    } finally {
+      controllerRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const retryFailed = () => {
+    const requeued = items.map(item => (item.status === 'failed' ? { ...item, status: 'queued' as const, error: undefined, errorKind: undefined } : item));
+    setItems(requeued);
+    start(requeued);
+  };
+
+  const downloadZip = async () => {
+    const zip = await createBatchZip(items);
+    downloadBlob(zip, `alphapunch-batch-${Date.now()}.zip`);
+  };
+
+  const counts = items.reduce(
+    (acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }),
+    { queued: 0, processing: 0, done: 0, failed: 0 } as Record<BatchItemStatus, number>
+  );
+
+  return (
+    <div className="w-full h-full flex flex-col gap-4">
+      <div className="flex flex-wrap items-end gap-4 bg-black/50 backdrop-blur-md rounded-2xl p-4 border border-white/10">
+        <label className="flex flex-col text-[10px] font-bold text-slate-500 uppercase tracking-widest gap-1">
+          {t('batch.preset')}
+          <select
+            value={presetId}
+            onChange={(e) => setPresetId(e.target.value)}
+            disabled={running}
+            className="px-3 py-2 rounded-xl bg-black/40 border border-white/10 text-xs text-slate-200 normal-case tracking-normal"
+          >
+            {presets.map(p => (
+              <option key={p.id} value={p.id}>{localizePreset(p, t).label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-[10px] font-bold text-slate-500 uppercase tracking-widest gap-1">
+          {t('batch.concurrency')}
+          <input
+            type="number"
+            min={1}
+            max={8}
+            value={concurrency}
+            disabled={running}
+            onChange={(e) => setConcurrency(Math.max(1, Math.min(8, Number(e.target.value) || 1)))}
+            className="w-20 px-3 py-2 rounded-xl bg-black/40 border border-white/10 text-xs text-slate-200"
+          />
+        </label>
+        <label className="flex flex-col text-[10px] font-bold text-slate-500 uppercase tracking-widest gap-1">
+          {t('batch.retries')}
+          <input
+            type="number"
+            min={0}
+            max={5}
+            value={maxRetries}
+            disabled={running}
+            onChange={(e) => setMaxRetries(Math.max(0, Math.min(5, Number(e.target.value) || 0)))}
+            className="w-20 px-3 py-2 rounded-xl bg-black/40 border border-white/10 text-xs text-slate-200"
+          />
+        </label>
+
+        <div className="flex items-center gap-2 ml-auto">
+          {running ? (
+            <button
+              onClick={() => controllerRef.current?.abort()}
+              className="px-4 py-2 rounded-xl text-xs font-black text-red-300 border border-red-500/30 hover:bg-red-500/10"
+            >
+              {t('common.cancelUpper')}
+            </button>
+          ) : (
+            <button
+              onClick={() => start(items)}
+              disabled={counts.queued === 0}
+              className="px-4 py-2 rounded-xl text-xs font-black bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-30"
+            >
+              {t('batch.start')}
+            </button>
+          )}
+          <button
+            onClick={retryFailed}
+            disabled={running || counts.failed === 0}
+            className="px-4 py-2 rounded-xl text-xs font-black text-slate-300 bg-white/5 hover:bg-white/10 disabled:opacity-30"
+          >
+            {t('batch.retryFailed')}
+          </button>
+          <button
+            onClick={downloadZip}
+            disabled={running || counts.done === 0}
+            className="bg-white text-black px-4 py-2 rounded-xl text-xs font-black hover:bg-slate-200 disabled:opacity-30"
+          >
+            {t('batch.downloadZip')}
+          </button>
+        </div>
+      </div>
+
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          addFiles(e.dataTransfer.files);
+        }}
+        className={`rounded-2xl border-2 border-dashed p-6 text-center transition-colors ${isDragging ? 'border-indigo-500 bg-indigo-500/5' : 'border-white/10'}`}
+      >
+        <p className="text-slate-400 text-sm font-medium">{t('batch.drop')}</p>
+        <div className="mt-3 flex justify-center gap-2">
+          <button onClick={() => filesRef.current?.click()} className="px-3 py-1.5 rounded-xl text-[11px] font-bold text-slate-300 bg-white/5 hover:bg-white/10">
+            {t('common.chooseFiles')}
+          </button>
+          <button onClick={() => folderRef.current?.click()} className="px-3 py-1.5 rounded-xl text-[11px] font-bold text-slate-300 bg-white/5 hover:bg-white/10">
+            {t('common.chooseFolder')}
+          </button>
+          <button
+            onClick={() => setItems([])}
+            disabled={running || items.length === 0}
+            className="px-3 py-1.5 rounded-xl text-[11px] font-bold text-slate-500 hover:text-white disabled:opacity-30"
+          >
+            {t('common.clear')}
+          </button>
+        </div>
+        <input
+          ref={filesRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files) addFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+        <input
+          ref={(el) => {
+            folderRef.current = el;
+            el?.setAttribute('webkitdirectory', '');
+          }}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files) addFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {items.length > 0 && (
+        <p className="text-[10px] font-mono text-slate-500 uppercase tracking-widest">
+          {t('batch.summary', { count: items.length, ...counts })}
+        </p>
+      )}
+
+      <div className="flex-1 overflow-y-auto space-y-2 pr-2 custom-scrollbar min-h-0">
+        {items.map(item => (
+          <div key={item.id} className="flex items-center gap-3 p-3 rounded-xl bg-black/30 border border-white/5">
+            <span className="flex-1 text-xs text-slate-300 truncate" title={item.file.webkitRelativePath || item.file.name}>
+              {item.file.webkitRelativePath || item.file.name}
+            </span>
+            {item.error && (
+              <span className="text-[10px] text-red-400 truncate max-w-[40%]" title={item.error}>{localizeError(item, t)}</span>
+            )}
+            {item.attempts > 1 && (
+              <span className="text-[10px] font-mono text-slate-500">{t('batch.attempt', { count: item.attempts })}</span>
+            )}
+            <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-widest ${STATUS_STYLES[item.status]}`}>
+              {t(STATUS_LABELS[item.status])}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { captureVideoFrame, loadCameraId, saveCameraId } from '../services/imageInput';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface CameraCaptureProps {
+  onCapture: (base64: string, mimeType: string) => void;
+  onCancel: () => void;
+}
+
+const CAMERA_ERRORS: Record<string, MessageKey> = {
+  NotAllowedError: 'camera.denied',
+  SecurityError: 'camera.denied',
+  NotFoundError: 'camera.notFound',
+  OverconstrainedError: 'camera.notFound',
+  NotReadableError: 'camera.busy'
+};
+
+export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel }) => {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [activeId, setActiveId] = useState('');
+  const [deviceId, setDeviceId] = useState<string | undefined>(loadCameraId);
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  // One stream per chosen device; switching devices stops the previous one.
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('camera.unsupported');
+      return;
+    }
+    let stream: MediaStream | null = null;
+    let active = true;
+    setReady(false);
+    setError(null);
+    const size = { width: { ideal: 3840 }, height: { ideal: 2160 } };
+    navigator.mediaDevices
+      .getUserMedia({ video: deviceId ? { ...size, deviceId: { exact: deviceId } } : { ...size, facingMode: 'environment' } })
+      .catch(e => {
+        // A remembered camera may have been unplugged; fall back to any camera.
+        if (deviceId && e?.name === 'OverconstrainedError') return navigator.mediaDevices.getUserMedia({ video: size });
+        throw e;
+      })
+      .then(async next => {
+        if (!active) {
+          next.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = next;
+        if (videoRef.current) videoRef.current.srcObject = next;
+        setActiveId(next.getVideoTracks()[0]?.getSettings().deviceId ?? '');
+        // Labels are only exposed once access has been granted.
+        const all = await navigator.mediaDevices.enumerateDevices();
+        if (active) setDevices(all.filter(d => d.kind === 'videoinput'));
+      })
+      .catch(e => {
+        if (active) setError(CAMERA_ERRORS[e?.name] ?? 'camera.failed');
+      });
+    return () => {
+      active = false;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [deviceId]);
+
+  const selectDevice = (id: string) => {
+    setDeviceId(id);
+    saveCameraId(id);
+  };
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const frame = captureVideoFrame(video);
+    onCapture(frame.base64, frame.mimeType);
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-3 bg-black/50 backdrop-blur-md rounded-2xl p-3 border border-white/10">
+        {devices.length > 1 && (
+          <label className="flex items-center space-x-2 text-[11px] font-bold text-slate-400">
+            <span>{t('camera.device')}</span>
+            <select
+              value={activeId}
+              onChange={(e) => selectDevice(e.target.value)}
+              className="max-w-[240px] px-3 py-1.5 rounded-xl bg-black/40 border border-white/10 text-xs text-slate-200"
+            >
+              {devices.map((device, index) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label || t('camera.deviceFallback', { index: index + 1 })}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <div className="flex items-center space-x-2 ml-auto">
+          <button onClick={onCancel} className="px-3 py-1.5 rounded-xl text-[11px] font-bold text-slate-400 hover:text-white">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={capture}
+            disabled={!ready}
+            className="bg-white text-black px-4 py-1.5 rounded-xl text-[11px] font-black hover:bg-slate-200 disabled:opacity-30"
+          >
+            {t('camera.capture')}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center min-h-0">
+        {error ? (
+          <p className="text-red-400 text-xs max-w-sm text-center">{t(error)}</p>
+        ) : (
+          <div className="relative min-w-[320px] min-h-[240px] rounded-2xl overflow-hidden ring-1 ring-white/10 bg-black">
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              onLoadedMetadata={() => setReady(true)}
+              onClick={capture}
+              className="block max-w-full max-h-[65vh] cursor-pointer"
+            />
+            {!ready && (
+              <p className="absolute inset-0 flex items-center justify-center text-slate-500 text-xs">{t('camera.starting')}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
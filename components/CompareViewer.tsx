@@ -0,0 +1,268 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createAlphaPreview, createPunchOverlay, loadImage } from '../services/imageProcessing';
+import { MessageKey, describeError } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+type Layout = 'swipe' | 'side';
+type ViewMode = 'result' | 'alpha' | 'overlay' | 'solid';
+
+interface CompareViewerProps {
+  original: string; // Base64 source photo
+  result: string; // Base64 transparent cut
+  onClose?: () => void;
+}
+
+interface View {
+  zoom: number; // Relative to fit
+  x: number; // Screen-pixel pan from centred
+  y: number;
+}
+
+// Zoom stops at 32 screen pixels per image pixel.
+const MAX_PIXEL_SCALE = 32;
+const FIT_VIEW: View = { zoom: 1, x: 0, y: 0 };
+const CHECKERBOARD = {
+  backgroundImage: 'linear-gradient(45deg, #222 25%, transparent 25%), linear-gradient(-45deg, #222 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #222 75%), linear-gradient(-45deg, transparent 75%, #222 75%)',
+  backgroundSize: '20px 20px',
+  backgroundPosition: '0 0, 0 10px, 10px -10px, -10px 0px',
+  backgroundColor: '#111'
+};
+
+const MODES: { id: ViewMode; label: MessageKey }[] = [
+  { id: 'result', label: 'compare.result' },
+  { id: 'alpha', label: 'compare.alpha' },
+  { id: 'overlay', label: 'compare.overlay' },
+  { id: 'solid', label: 'compare.solid' }
+];
+
+export const CompareViewer: React.FC<CompareViewerProps> = ({ original, result, onClose }) => {
+  const { t } = useI18n();
+  const panesRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ kind: 'pan' | 'swipe'; lastX: number; lastY: number; pane?: DOMRect } | null>(null);
+  const [layout, setLayout] = useState<Layout>('swipe');
+  const [mode, setMode] = useState<ViewMode>('result');
+  const [solidColor, setSolidColor] = useState('#ffffff');
+  const [split, setSplit] = useState(0.5);
+  const [view, setView] = useState<View>(FIT_VIEW);
+  const [bounds, setBounds] = useState({ w: 0, h: 0 });
+  const [dims, setDims] = useState<{ w: number; h: number } | null>(null);
+  const [alphaUrl, setAlphaUrl] = useState<string | null>(null);
+  const [overlayUrl, setOverlayUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    setAlphaUrl(null);
+    setOverlayUrl(null);
+    setView(FIT_VIEW);
+    loadImage(result)
+      .then(img => active && setDims({ w: img.naturalWidth, h: img.naturalHeight }))
+      .catch(e => active && setError(describeError(e, 'compare.loadFailed', t)));
+    return () => {
+      active = false;
+    };
+  }, [result, original]);
+
+  // Derived views are built on first use and kept until the images change.
+  useEffect(() => {
+    let active = true;
+    const build = mode === 'alpha' && !alphaUrl
+      ? createAlphaPreview(result).then(url => active && setAlphaUrl(url))
+      : mode === 'overlay' && !overlayUrl
+        ? createPunchOverlay(result, original).then(url => active && setOverlayUrl(url))
+        : null;
+    build?.catch(e => active && setError(describeError(e, 'compare.buildFailed', t)));
+    return () => {
+      active = false;
+    };
+  }, [mode, result, original, alphaUrl, overlayUrl]);
+
+  useEffect(() => {
+    const el = panesRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setBounds({ w: entry.contentRect.width, h: entry.contentRect.height });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const paneWidth = layout === 'side' ? Math.max(0, (bounds.w - 8) / 2) : bounds.w;
+  const fit = dims ? Math.min(paneWidth / dims.w, bounds.h / dims.h) || 1 : 1;
+  const maxZoom = Math.max(1, MAX_PIXEL_SCALE / fit);
+  const scale = fit * view.zoom;
+
+  // React's wheel listener is passive, so zoom needs a native one to stop page scroll.
+  useEffect(() => {
+    const el = panesRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      const pane = (e.target as HTMLElement).closest('[data-pane]');
+      if (!pane) return;
+      e.preventDefault();
+      const rect = pane.getBoundingClientRect();
+      const cx = e.clientX - rect.left - rect.width / 2;
+      const cy = e.clientY - rect.top - rect.height / 2;
+      setView(v => {
+        const zoom = Math.max(1, Math.min(maxZoom, v.zoom * Math.exp(-e.deltaY * 0.0015)));
+        const k = zoom / v.zoom;
+        // Keep the image point under the cursor fixed.
+        return zoom === 1 ? FIT_VIEW : { zoom, x: cx - (cx - v.x) * k, y: cy - (cy - v.y) * k };
+      });
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [maxZoom]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    const swipe = (e.target as HTMLElement).closest('[data-swipe-handle]');
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      kind: swipe ? 'swipe' : 'pan',
+      lastX: e.clientX,
+      lastY: e.clientY,
+      pane: (e.target as HTMLElement).closest('[data-pane]')?.getBoundingClientRect()
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.kind === 'swipe' && drag.pane) {
+      setSplit(Math.max(0, Math.min(1, (e.clientX - drag.pane.left) / drag.pane.width)));
+    } else if (drag.kind === 'pan' && view.zoom > 1) {
+      const dx = e.clientX - drag.lastX;
+      const dy = e.clientY - drag.lastY;
+      setView(v => ({ ...v, x: v.x + dx, y: v.y + dy }));
+    }
+    drag.lastX = e.clientX;
+    drag.lastY = e.clientY;
+  };
+
+  const imageBox = (): React.CSSProperties => {
+    if (!dims) return { display: 'none' };
+    const w = dims.w * scale;
+    const h = dims.h * scale;
+    return {
+      position: 'absolute',
+      left: paneWidth / 2 - w / 2 + view.x,
+      top: bounds.h / 2 - h / 2 + view.y,
+      width: w,
+      height: h,
+      imageRendering: scale >= 2 ? 'pixelated' : 'auto'
+    };
+  };
+
+  const layer = (src: string | null, alt: string) =>
+    src ? <img src={src} alt={alt} draggable={false} style={imageBox()} className="max-w-none select-none" /> : null;
+
+  const processed = () => {
+    switch (mode) {
+      case 'alpha':
+        return layer(alphaUrl, t('compare.alpha'));
+      case 'overlay':
+        return layer(overlayUrl, t('compare.punchedArea'));
+      case 'solid':
+        return (
+          <>
+            <div style={{ ...imageBox(), backgroundColor: solidColor }} />
+            {layer(result, t('compare.result'))}
+          </>
+        );
+      default:
+        return layer(result, t('compare.result'));
+    }
+  };
+
+  const tag = (text: string, side: 'left' | 'right') => (
+    <span className={`absolute top-3 ${side === 'left' ? 'left-3' : 'right-3'} px-2 py-0.5 rounded-md bg-black/60 text-[10px] font-bold uppercase tracking-widest text-slate-300 pointer-events-none`}>
+      {text}
+    </span>
+  );
+
+  const toggle = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-[11px] font-bold transition-all ${active ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`;
+
+  return (
+    <div className="w-full h-full flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-3 bg-black/50 backdrop-blur-md rounded-2xl p-3 border border-white/10">
+        <div className="flex items-center bg-white/5 rounded-full p-1 border border-white/10">
+          <button onClick={() => setLayout('swipe')} className={toggle(layout === 'swipe')}>{t('compare.swipe')}</button>
+          <button onClick={() => setLayout('side')} className={toggle(layout === 'side')}>{t('compare.sideBySide')}</button>
+        </div>
+        <div className="flex items-center bg-white/5 rounded-full p-1 border border-white/10">
+          {MODES.map(m => (
+            <button key={m.id} onClick={() => setMode(m.id)} className={toggle(mode === m.id)}>{t(m.label)}</button>
+          ))}
+        </div>
+        {mode === 'solid' && (
+          <input
+            type="color"
+            value={solidColor}
+            onChange={(e) => setSolidColor(e.target.value)}
+            title={t('compare.background')}
+            className="w-8 h-8 rounded-lg bg-transparent border border-white/10 cursor-pointer"
+          />
+        )}
+        <div className="flex items-center space-x-2 ml-auto">
+          <span className="font-mono text-[10px] text-slate-500 w-12 text-right">{Math.round(scale * 100)}%</span>
+          <button
+            onClick={() => setView(FIT_VIEW)}
+            className="px-3 py-1.5 rounded-xl text-[11px] font-bold text-slate-300 bg-white/5 hover:bg-white/10"
+          >
+            {t('common.fit')}
+          </button>
+          {onClose && (
+            <button onClick={onClose} className="px-3 py-1.5 rounded-xl text-[11px] font-bold text-slate-400 hover:text-white">
+              {t('common.close')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div
+        ref={panesRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => (dragRef.current = null)}
+        onDoubleClick={() => setView(FIT_VIEW)}
+        className={`flex-1 min-h-[300px] flex gap-2 touch-none select-none ${view.zoom > 1 ? 'cursor-grab' : ''}`}
+      >
+        {error ? (
+          <p className="m-auto text-red-400 text-xs">{error}</p>
+        ) : layout === 'side' ? (
+          <>
+            <div data-pane className="relative flex-1 overflow-hidden rounded-2xl ring-1 ring-white/10" style={CHECKERBOARD}>
+              {layer(original, t('compare.before'))}
+              {tag(t('compare.before'), 'left')}
+            </div>
+            <div data-pane className="relative flex-1 overflow-hidden rounded-2xl ring-1 ring-white/10" style={CHECKERBOARD}>
+              {processed()}
+              {tag(t('compare.after'), 'right')}
+            </div>
+          </>
+        ) : (
+          <div data-pane className="relative flex-1 overflow-hidden rounded-2xl ring-1 ring-white/10" style={CHECKERBOARD}>
+            {layer(original, t('compare.before'))}
+            <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${split * 100}%)`, ...CHECKERBOARD }}>
+              {processed()}
+            </div>
+            <div className="absolute inset-y-0 w-px bg-white/80 pointer-events-none" style={{ left: `${split * 100}%` }} />
+            <div
+              data-swipe-handle
+              className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white text-black shadow-xl flex items-center justify-center cursor-ew-resize"
+              style={{ left: `${split * 100}%` }}
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M8 9l-4 3 4 3m8-6l4 3-4 3" />
+              </svg>
+            </div>
+            {tag(t('compare.before'), 'left')}
+            {tag(t('compare.after'), 'right')}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,308 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CompositeSettings, Point, Quad, WindowRegion } from '../types';
+import { DEFAULT_COMPOSITE, findWindowRegions, rectQuad, renderComposite } from '../services/compositor';
+import { blobToDataUrl, loadImage } from '../services/imageProcessing';
+import { describeError } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface CompositorPanelProps {
+  cut: string; // Transparent result (Base64 PNG)
+  onApply: (composite: string) => void;
+  onCancel: () => void;
+}
+
+// Previews render at reduced size; Apply renders at full resolution.
+const PREVIEW_MAX_SIZE = 1024;
+const HANDLE_RADIUS = 7; // Screen pixels
+
+type Drag = { kind: 'pan'; start: Point; origin: Point } | { kind: 'corner'; region: number; corner: number };
+
+export const CompositorPanel: React.FC<CompositorPanelProps> = ({ cut, onApply, onCancel }) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [cutImage, setCutImage] = useState<HTMLImageElement | null>(null);
+  const [background, setBackground] = useState<HTMLImageElement | null>(null);
+  const [settings, setSettings] = useState<CompositeSettings>(DEFAULT_COMPOSITE);
+  const [regions, setRegions] = useState<WindowRegion[]>([]);
+  const [selectedRegion, setSelectedRegion] = useState<number | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    (async () => {
+      try {
+        const img = await loadImage(cut);
+        if (!active) return;
+        const canvas = document.createElement('canvas');
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) throw new Error('Canvas context not available');
+        ctx.drawImage(img, 0, 0);
+        const found = findWindowRegions(ctx.getImageData(0, 0, canvas.width, canvas.height));
+        setCutImage(img);
+        setRegions(found);
+        setSelectedRegion(found[0]?.id ?? null);
+      } catch (e: any) {
+        if (active) setError(describeError(e, 'compositor.loadCutFailed', t));
+      }
+    })();
+    return () => {
+      active = false;
+    };
+  }, [cut]);
+
+  const previewScale = cutImage ? Math.min(1, PREVIEW_MAX_SIZE / Math.max(cutImage.naturalWidth, cutImage.naturalHeight)) : 1;
+
+  useEffect(() => {
+    if (!cutImage || !background) return;
+    const frame = requestAnimationFrame(() => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      try {
+        const rendered = renderComposite({ cut: cutImage, background, settings, regions, scale: previewScale });
+        canvas.width = rendered.width;
+        canvas.height = rendered.height;
+        ctx.drawImage(rendered, 0, 0);
+        setError(null);
+      } catch (e: any) {
+        setError(describeError(e, 'compositor.renderFailed', t));
+      }
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [cutImage, background, settings, regions, previewScale]);
+
+  const loadBackground = async (file: File) => {
+    try {
+      setBackground(await loadImage(await blobToDataUrl(file)));
+    } catch (e: any) {
+      setError(describeError(e, 'compositor.loadBackgroundFailed', t));
+    }
+  };
+
+  const toImagePoint = (e: React.PointerEvent): Point => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * cutImage!.naturalWidth,
+      y: ((e.clientY - rect.top) / rect.height) * cutImage!.naturalHeight
+    };
+  };
+
+  const screenScale = () => {
+    const canvas = canvasRef.current;
+    if (!canvas || !cutImage) return 1;
+    return cutImage.naturalWidth / canvas.getBoundingClientRect().width;
+  };
+
+  const updateQuad = (id: number, quad: Quad) => {
+    setRegions(prev => prev.map(r => (r.id === id ? { ...r, quad } : r)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!cutImage || !background || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toImagePoint(e);
+    const region = regions.find(r => r.id === selectedRegion);
+    const reach = HANDLE_RADIUS * 2 * screenScale();
+    const corner = region ? region.quad.findIndex(p => Math.hypot(p.x - point.x, p.y - point.y) < reach) : -1;
+    if (region && corner >= 0) {
+      setDrag({ kind: 'corner', region: region.id, corner });
+    } else {
+      setDrag({ kind: 'pan', start: point, origin: { x: settings.offsetX, y: settings.offsetY } });
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag || !cutImage) return;
+    const point = toImagePoint(e);
+    if (drag.kind === 'pan') {
+      setSettings(s => ({
+        ...s,
+        offsetX: drag.origin.x + (point.x - drag.start.x) / cutImage.naturalWidth,
+        offsetY: drag.origin.y + (point.y - drag.start.y) / cutImage.naturalHeight
+      }));
+    } else {
+      const region = regions.find(r => r.id === drag.region);
+      if (!region) return;
+      const quad = region.quad.map((p, i) => (i === drag.corner ? point : p)) as Quad;
+      updateQuad(region.id, quad);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!cutImage || !background) return;
+    setIsApplying(true);
+    try {
+      // Let the button repaint before the full-size render blocks the thread.
+      await new Promise(resolve => setTimeout(resolve, 0));
+      onApply(renderComposite({ cut: cutImage, background, settings, regions }).toDataURL('image/png'));
+    } catch (e: any) {
+      setError(describeError(e, 'compositor.renderFailed', t));
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const slider = (label: string, key: keyof CompositeSettings, min: number, max: number, step: number, format: (v: number) => string) => (
+    <label key={key} className="flex items-center space-x-2 text-[11px] font-bold text-slate-400">
+      <span>{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={settings[key]}
+        onChange={(e) => setSettings({ ...settings, [key]: Number(e.target.value) })}
+        className="w-20 accent-indigo-500"
+      />
+      <span className="font-mono text-[10px] text-slate-500 w-10">{format(settings[key])}</span>
+    </label>
+  );
+
+  const selected = regions.find(r => r.id === selectedRegion);
+
+  return (
+    <div className="w-full h-full flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-3 bg-black/50 backdrop-blur-md rounded-2xl p-3 border border-white/10">
+        <button
+          onClick={() => fileRef.current?.click()}
+          className="px-3 py-1.5 rounded-xl text-[11px] font-bold text-slate-300 bg-white/5 hover:bg-white/10"
+        >
+          {background ? t('compositor.changeBackground') : t('compositor.chooseBackground')}
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) loadBackground(file);
+            e.target.value = '';
+          }}
+        />
+
+        {slider('X', 'offsetX', -1, 1, 0.005, v => `${Math.round(v * 100)}%`)}
+        {slider('Y', 'offsetY', -1, 1, 0.005, v => `${Math.round(v * 100)}%`)}
+        {slider(t('compositor.scale'), 'scale', 0.5, 3, 0.01, v => `${Math.round(v * 100)}%`)}
+        {slider(t('compositor.blur'), 'blur', 0, 40, 0.5, v => `${v}px`)}
+        {slider(t('compositor.colorMatch'), 'colorMatch', 0, 100, 1, v => `${v}%`)}
+
+        <div className="flex items-center space-x-2 ml-auto">
+          <button
+            onClick={() => setSettings(DEFAULT_COMPOSITE)}
+            className="px-3 py-1.5 rounded-xl text-[11px] font-bold text-slate-300 bg-white/5 hover:bg-white/10"
+          >
+            {t('common.reset')}
+          </button>
+          <button onClick={onCancel} className="px-3 py-1.5 rounded-xl text-[11px] font-bold text-slate-400 hover:text-white">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!cutImage || !background || isApplying}
+            className="bg-white text-black px-4 py-1.5 rounded-xl text-[11px] font-black hover:bg-slate-200 disabled:opacity-30"
+          >
+            {isApplying ? t('compositor.rendering') : t('common.apply')}
+          </button>
+        </div>
+      </div>
+
+      {regions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-[11px]">
+          <span className="font-bold text-slate-500 uppercase tracking-widest text-[10px]">{t('compositor.windows')}</span>
+          {regions.map(region => (
+            <button
+              key={region.id}
+              onClick={() => setSelectedRegion(region.id)}
+              className={`px-3 py-1 rounded-full font-bold transition-all ${selectedRegion === region.id ? 'bg-indigo-600 text-white' : 'bg-white/5 text-slate-400 hover:text-white'}`}
+            >
+              {region.id}
+            </button>
+          ))}
+          {selected && (
+            <button
+              onClick={() => updateQuad(selected.id, rectQuad(selected.x, selected.y, selected.width, selected.height))}
+              className="px-3 py-1 rounded-full font-bold text-slate-400 hover:text-white"
+            >
+              {t('compositor.resetCorners')}
+            </button>
+          )}
+          <span className="text-[10px] text-slate-500">{t('compositor.hint')}</span>
+        </div>
+      )}
+
+      <div className="flex-1 flex items-center justify-center min-h-0">
+        {error && !background ? (
+          <p className="text-red-400 text-xs">{error}</p>
+        ) : !background ? (
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="px-6 py-10 rounded-3xl border-2 border-dashed border-white/10 text-slate-500 text-xs hover:border-indigo-500/50 hover:text-slate-300"
+          >
+            {t('compositor.placeholder')}
+          </button>
+        ) : (
+          <div
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => setDrag(null)}
+            className="relative inline-block rounded-2xl overflow-hidden ring-1 ring-white/10 touch-none cursor-move"
+          >
+            <canvas ref={canvasRef} className="block max-w-full max-h-[65vh]" />
+            {cutImage && (
+              <svg
+                className="absolute inset-0 w-full h-full pointer-events-none"
+                viewBox={`0 0 ${cutImage.naturalWidth} ${cutImage.naturalHeight}`}
+                preserveAspectRatio="none"
+              >
+                {regions.map(region => (
+                  <rect
+                    key={region.id}
+                    x={region.x}
+                    y={region.y}
+                    width={region.width}
+                    height={region.height}
+                    fill="none"
+                    stroke={region.id === selectedRegion ? '#818cf8' : 'rgba(255,255,255,0.25)'}
+                    strokeWidth={1}
+                    strokeDasharray="6 4"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))}
+                {selected && (
+                  <>
+                    <polygon
+                      points={selected.quad.map(p => `${p.x},${p.y}`).join(' ')}
+                      fill="rgba(99,102,241,0.1)"
+                      stroke="#818cf8"
+                      strokeWidth={1.5}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                    {selected.quad.map((p, i) => (
+                      <circle
+                        key={i}
+                        cx={p.x}
+                        cy={p.y}
+                        r={HANDLE_RADIUS * screenScale()}
+                        fill="white"
+                        stroke="#4f46e5"
+                        strokeWidth={2}
+                        vectorEffect="non-scaling-stroke"
+                      />
+                    ))}
+                  </>
+                )}
+              </svg>
+            )}
+          </div>
+        )}
+      </div>
+      {error && background && <p className="text-red-400 text-xs text-center">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,316 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EvalConfig, EvalResult, EvalSample, GenerationSettings, ImageProvider, KeyingSettings, MaskMetrics, OutputMode, PresetPrompt } from '../types';
+import { evaluationReportCsv, evaluationReportJson, pairSamples, runEvaluation, summarizeConfig } from '../services/evaluation';
+import { downloadBlob } from '../services/exporters';
+import { localizeError, localizePreset } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface EvaluationPanelProps {
+  presets: PresetPrompt[];
+  provider: ImageProvider;
+  presetId: string; // Seeds the first configurations
+  settings: KeyingSettings;
+  mode: OutputMode;
+  generation: GenerationSettings;
+}
+
+const resultKey = (sampleId: string, configId: string) => `${sampleId}:${configId}`;
+
+// IoU colouring: green is good enough to ship, amber needs a look, red is broken.
+const scoreTone = (iou: number) => (iou >= 0.9 ? 'text-emerald-300' : iou >= 0.7 ? 'text-amber-300' : 'text-red-300');
+
+const MetricCell: React.FC<{ metrics: MaskMetrics }> = ({ metrics }) => {
+  const { t, formatNumber } = useI18n();
+  const pct = (v: number) => formatNumber(v * 100, 1);
+  return (
+    <div className="font-mono text-[10px] leading-tight">
+      <div className={`font-bold ${scoreTone(metrics.iou)}`}>{t('eval.iou', { value: pct(metrics.iou) })}</div>
+      <div className="text-slate-400">{t('eval.boundaryF', { value: pct(metrics.boundaryF) })}</div>
+      <div className="text-slate-500">{t('eval.alphaError', { value: pct(metrics.alphaError) })}</div>
+    </div>
+  );
+};
+
+let configSeq = 0;
+const newConfig = (presetId: string, usePro: boolean): EvalConfig => ({ id: `cfg-${++configSeq}`, presetId, usePro });
+
+export const EvaluationPanel: React.FC<EvaluationPanelProps> = ({ presets, provider, presetId, settings, mode, generation }) => {
+  const { t } = useI18n();
+  const [samples, setSamples] = useState<EvalSample[]>([]);
+  const [unmatched, setUnmatched] = useState<string[]>([]);
+  const [configs, setConfigs] = useState<EvalConfig[]>(() => [newConfig(presetId, false), newConfig(presetId, true)]);
+  const [results, setResults] = useState<Record<string, EvalResult>>({});
+  const [selected, setSelected] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const filesRef = useRef<HTMLInputElement>(null);
+  const folderRef = useRef<HTMLInputElement>(null);
+
+  // Nothing else can stop a running evaluation once the panel is gone.
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const addFiles = (files: FileList | File[]) => {
+    const paired = pairSamples(Array.from(files));
+    setSamples(prev => [...prev, ...paired.samples]);
+    setUnmatched(paired.unmatched.map(f => f.webkitRelativePath || f.name));
+  };
+
+  const updateConfig = (id: string, patch: Partial<EvalConfig>) => {
+    setConfigs(prev => prev.map(c => (c.id === id ? { ...c, ...patch } : c)));
+    // Scores belong to the old settings
+    setResults(prev => Object.fromEntries(Object.entries(prev).filter(([, r]) => (r as EvalResult).configId !== id)));
+  };
+
+  const start = async () => {
+    if (running || !samples.length || !configs.length) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    setResults({});
+    setSelected(null);
+    try {
+      await runEvaluation(samples, configs, { provider, presets, settings, mode, generation }, {
+        signal: controller.signal,
+        onResult: (result) => setResults(prev => ({ ...prev, [resultKey(result.sampleId, result.configId)]: result }))
+      });
+    } finally {
+      controllerRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const resultList = (Object.values(results) as EvalResult[]).filter(r => configs.some(c => c.id === r.configId));
+  const reportInput = { provider, samples, configs, presets, results: resultList, t };
+  const hasScores = resultList.some(r => r.metrics);
+  const selectedResult = selected ? results[selected] : undefined;
+
+  const presetLabel = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    return preset ? localizePreset(preset, t).label : id;
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col gap-4">
+      <div className="flex flex-wrap items-start gap-4 bg-black/50 backdrop-blur-md rounded-2xl p-4 border border-white/10">
+        <div className="flex-1 min-w-[280px] space-y-2">
+          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('eval.configurations')}</p>
+          {configs.map((config, index) => (
+            <div key={config.id} className="flex items-center gap-2">
+              <span className="w-5 text-[10px] font-mono text-slate-500">{String.fromCharCode(65 + index)}</span>
+              <select
+                value={config.presetId}
+                onChange={(e) => updateConfig(config.id, { presetId: e.target.value })}
+                disabled={running}
+                className="flex-1 px-3 py-1.5 rounded-xl bg-black/40 border border-white/10 text-xs text-slate-200"
+              >
+                {presets.map(p => <option key={p.id} value={p.id}>{presetLabel(p.id)}</option>)}
+              </select>
+              <div className="flex items-center bg-white/5 rounded-full p-0.5 border border-white/10">
+                {[false, true].map(pro => (
+                  <button
+                    key={String(pro)}
+                    onClick={() => updateConfig(config.id, { usePro: pro })}
+                    disabled={running}
+                    className={`px-3 py-1 rounded-full text-[10px] font-bold ${config.usePro === pro ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    {pro ? t('model.proShort') : t('model.standard')}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => setConfigs(prev => prev.filter(c => c.id !== config.id))}
+                disabled={running || configs.length === 1}
+                title={t('eval.removeConfig')}
+                className="p-1 rounded-md text-slate-500 hover:text-white hover:bg-red-600 disabled:opacity-30 disabled:hover:bg-transparent"
+              >
+                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setConfigs(prev => [...prev, newConfig(presetId, false)])}
+            disabled={running}
+            className="text-[10px] font-bold text-indigo-400 hover:text-white uppercase tracking-widest disabled:opacity-30"
+          >
+            {t('eval.addConfig')}
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 ml-auto">
+          {running ? (
+            <button
+              onClick={() => controllerRef.current?.abort()}
+              className="px-4 py-2 rounded-xl text-xs font-black text-red-300 border border-red-500/30 hover:bg-red-500/10"
+            >
+              {t('common.cancelUpper')}
+            </button>
+          ) : (
+            <button
+              onClick={start}
+              disabled={!samples.length}
+              className="px-4 py-2 rounded-xl text-xs font-black bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-30"
+            >
+              {t('eval.run')}
+            </button>
+          )}
+          <button
+            onClick={() => downloadBlob(evaluationReportCsv(reportInput), `alphapunch-eval-${Date.now()}.csv`)}
+            disabled={running || !hasScores}
+            className="px-4 py-2 rounded-xl text-xs font-black text-slate-300 bg-white/5 hover:bg-white/10 disabled:opacity-30"
+          >
+            CSV
+          </button>
+          <button
+            onClick={() => downloadBlob(evaluationReportJson(reportInput), `alphapunch-eval-${Date.now()}.json`)}
+            disabled={running || !hasScores}
+            className="bg-white text-black px-4 py-2 rounded-xl text-xs font-black hover:bg-slate-200 disabled:opacity-30"
+          >
+            JSON
+          </button>
+        </div>
+      </div>
+
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          addFiles(e.dataTransfer.files);
+        }}
+        className={`rounded-2xl border-2 border-dashed p-4 text-center transition-colors ${isDragging ? 'border-indigo-500 bg-indigo-500/5' : 'border-white/10'}`}
+      >
+        <p className="text-slate-400 text-sm font-medium">{t('eval.drop')}</p>
+        <p className="text-[10px] text-slate-500 mt-1">{t('eval.pairHint')}</p>
+        <div className="mt-3 flex justify-center gap-2">
+          <button onClick={() => filesRef.current?.click()} className="px-3 py-1.5 rounded-xl text-[11px] font-bold text-slate-300 bg-white/5 hover:bg-white/10">
+            {t('common.chooseFiles')}
+          </button>
+          <button onClick={() => folderRef.current?.click()} className="px-3 py-1.5 rounded-xl text-[11px] font-bold text-slate-300 bg-white/5 hover:bg-white/10">
+            {t('common.chooseFolder')}
+          </button>
+          <button
+            onClick={() => {
+              setSamples([]);
+              setResults({});
+              setUnmatched([]);
+              setSelected(null);
+            }}
+            disabled={running || samples.length === 0}
+            className="px-3 py-1.5 rounded-xl text-[11px] font-bold text-slate-500 hover:text-white disabled:opacity-30"
+          >
+            {t('common.clear')}
+          </button>
+        </div>
+        <input
+          ref={filesRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files) addFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+        <input
+          ref={(el) => {
+            folderRef.current = el;
+            el?.setAttribute('webkitdirectory', '');
+          }}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files) addFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {unmatched.length > 0 && (
+        <p className="text-[10px] text-amber-400 truncate" title={unmatched.join('\n')}>
+          {t('eval.unmatched', { count: unmatched.length, files: unmatched.join(', ') })}
+        </p>
+      )}
+
+      <div className="flex-1 min-h-0 flex gap-4">
+        <div className="flex-1 overflow-auto custom-scrollbar pr-2">
+          {samples.length > 0 && (
+            <table className="w-full text-left text-xs border-separate border-spacing-y-1">
+              <thead>
+                <tr className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                  <th className="px-2 py-1">{t('eval.sample')}</th>
+                  {configs.map((config, index) => (
+                    <th key={config.id} className="px-2 py-1" title={`${presetLabel(config.presetId)} · ${config.usePro ? t('model.proShort') : t('model.standard')}`}>
+                      {String.fromCharCode(65 + index)} · {config.usePro ? t('model.proShort') : t('model.standardAbbr')}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {samples.map(sample => (
+                  <tr key={sample.id}>
+                    <td className="px-2 py-2 bg-black/30 rounded-l-xl text-slate-300 truncate max-w-[160px]" title={sample.name}>{sample.name}</td>
+                    {configs.map((config, index) => {
+                      const key = resultKey(sample.id, config.id);
+                      const result = results[key];
+                      return (
+                        <td key={config.id} className={`px-2 py-2 bg-black/30 ${index === configs.length - 1 ? 'rounded-r-xl' : ''}`}>
+                          {result?.metrics ? (
+                            <button
+                              onClick={() => setSelected(key)}
+                              className={`text-left rounded-md px-1 -mx-1 ${selected === key ? 'ring-1 ring-indigo-400' : 'hover:bg-white/5'}`}
+                            >
+                              <MetricCell metrics={result.metrics} />
+                            </button>
+                          ) : result?.status === 'failed' ? (
+                            <span className="text-[10px] text-red-400" title={localizeError(result, t)}>{t('status.failed')}</span>
+                          ) : result?.status === 'processing' ? (
+                            <span className="text-[10px] text-indigo-300 animate-pulse">{t('eval.running')}</span>
+                          ) : (
+                            <span className="text-[10px] text-slate-600">—</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+                {hasScores && (
+                  <tr>
+                    <td className="px-2 py-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('eval.mean')}</td>
+                    {configs.map(config => {
+                      const mean = summarizeConfig(resultList, config.id);
+                      return (
+                        <td key={config.id} className="px-2 py-2">
+                          {mean ? <MetricCell metrics={mean} /> : <span className="text-[10px] text-slate-600">—</span>}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {selectedResult?.diff && (
+          <div className="w-[40%] flex flex-col gap-2">
+            <div className="flex items-center gap-3 text-[10px] font-bold uppercase tracking-widest">
+              <span className="flex items-center gap-1 text-red-300"><span className="w-2 h-2 rounded-sm bg-red-500"></span>{t('eval.falsePositive')}</span>
+              <span className="flex items-center gap-1 text-blue-300"><span className="w-2 h-2 rounded-sm bg-blue-500"></span>{t('eval.falseNegative')}</span>
+              <button onClick={() => setSelected(null)} className="ml-auto text-slate-500 hover:text-white">{t('common.close')}</button>
+            </div>
+            <img src={selectedResult.diff} alt={t('eval.diffAlt')} className="w-full rounded-xl ring-1 ring-white/10" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
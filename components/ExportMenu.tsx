@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExportSubject } from '../types';
+import { EXPORT_FORMATS, ExportFormat, defaultExportStem, downloadBlob, exportFilename, exportSubject } from '../services/exporters';
+import { canCopyImages, copyImageToClipboard } from '../services/imageInput';
+import { describeError } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface ExportMenuProps {
+  subject: ExportSubject;
+  variant?: 'compact' | 'large';
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ subject, variant = 'compact' }) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState<ExportFormat | 'copy' | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    window.addEventListener('mousedown', close);
+    return () => window.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const run = async (format: ExportFormat) => {
+    setBusy(format);
+    setError(null);
+    try {
+      const stem = defaultExportStem();
+      downloadBlob(await exportSubject(subject, format, stem), exportFilename(format, stem));
+      setOpen(false);
+    } catch (e: any) {
+      setError(describeError(e, 'export.failed', t));
+      setOpen(true);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // The menu stays open so the confirmation is visible where the user clicked.
+  const copy = async () => {
+    setBusy('copy');
+    setError(null);
+    try {
+      await copyImageToClipboard(exportSubject(subject, 'png'));
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch (e: any) {
+      setError(describeError(e, 'export.copyFailed', t));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const large = variant === 'large';
+
+  return (
+    <div ref={rootRef} className="relative" onClick={(e) => e.stopPropagation()}>
+      <div className={`flex items-stretch bg-white text-black font-black shadow-xl ${large ? 'rounded-full text-xs' : 'rounded-xl text-xs'}`}>
+        <button
+          onClick={() => run('png')}
+          disabled={busy !== null}
+          className={`flex items-center space-x-2 hover:bg-slate-200 transition-colors disabled:opacity-50 ${large ? 'pl-6 pr-4 py-2.5 rounded-l-full' : 'pl-4 pr-3 py-2 rounded-l-xl'}`}
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={large ? 2.5 : 2} d="M4 16v1a2 2 0 002 2h12a2 2 0 002-2v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+          </svg>
+          <span>{busy === 'png' ? t('export.saving') : t('export.downloadPng')}</span>
+        </button>
+        <button
+          onClick={() => setOpen(o => !o)}
+          title={t('export.more')}
+          className={`border-l border-black/10 hover:bg-slate-200 transition-colors ${large ? 'px-3 rounded-r-full' : 'px-2 rounded-r-xl'}`}
+        >
+          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+      </div>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 rounded-2xl bg-[#111] border border-white/10 shadow-2xl p-2 z-[110]">
+          {canCopyImages() && (
+            <button
+              onClick={copy}
+              disabled={busy !== null}
+              className="w-full text-left px-3 py-2 rounded-xl hover:bg-white/5 disabled:opacity-50 border-b border-white/5 mb-1"
+            >
+              <div className="text-xs font-bold text-white">{copied ? t('export.copied') : t('export.copy.label')}</div>
+              <div className="text-[10px] text-slate-500">{t('export.copy.description')}</div>
+            </button>
+          )}
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format}
+              onClick={() => run(format)}
+              disabled={busy !== null}
+              className="w-full text-left px-3 py-2 rounded-xl hover:bg-white/5 disabled:opacity-50"
+            >
+              <div className="text-xs font-bold text-white">{busy === format ? t('export.exporting') : t(`export.${format}.label` as const)}</div>
+              <div className="text-[10px] text-slate-500">{t(`export.${format}.description` as const)}</div>
+            </button>
+          ))}
+          {error && <p className="px-3 py-2 text-[10px] text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
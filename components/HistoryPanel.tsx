@@ -0,0 +1,201 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { HistoryItem } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface HistoryPanelProps {
+  items: HistoryItem[];
+  quotaMb: number;
+  onQuotaChange: (mb: number) => void;
+  onSelect: (item: HistoryItem) => void;
+  onView: (item: HistoryItem) => void;
+  onDelete: (item: HistoryItem) => void;
+  onTogglePin: (item: HistoryItem) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  busy: boolean;
+  selectDisabled?: boolean; // Restoring is blocked while a cut is running
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+const MIN_QUOTA_MB = 10;
+
+// Object URLs are tied to the tile's lifetime so thumbnails never leak.
+const HistoryThumbnail: React.FC<{ blob: Blob; onClick: () => void }> = ({ blob, onClick }) => {
+  const { t } = useI18n();
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const next = URL.createObjectURL(blob);
+    setUrl(next);
+    return () => URL.revokeObjectURL(next);
+  }, [blob]);
+
+  return url ? (
+    <img
+      src={url}
+      alt={t('history.thumbnailAlt')}
+      onClick={onClick}
+      className="w-full h-full object-contain bg-[url('https://www.transparenttextures.com/patterns/cubes.png')] bg-[#0a0a0a]"
+    />
+  ) : null;
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  items,
+  quotaMb,
+  onQuotaChange,
+  onSelect,
+  onView,
+  onDelete,
+  onTogglePin,
+  onExport,
+  onImport,
+  busy,
+  selectDisabled = false
+}) => {
+  const { t, formatDateTime, formatNumber } = useI18n();
+  const [query, setQuery] = useState('');
+  // Shrinking the quota deletes entries, so it is only committed on blur or Enter.
+  const [quotaDraft, setQuotaDraft] = useState(String(quotaMb));
+  const importRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => setQuotaDraft(String(quotaMb)), [quotaMb]);
+
+  const commitQuota = () => {
+    const mb = Number(quotaDraft);
+    if (!quotaDraft.trim() || !Number.isFinite(mb)) {
+      setQuotaDraft(String(quotaMb));
+      return;
+    }
+    const clamped = Math.max(MIN_QUOTA_MB, Math.round(mb));
+    setQuotaDraft(String(clamped));
+    if (clamped !== quotaMb) onQuotaChange(clamped);
+  };
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return q ? items.filter(item => item.promptUsed.toLowerCase().includes(q)) : items;
+  }, [items, query]);
+
+  const usedBytes = items.reduce((sum, item) => sum + item.size, 0);
+
+  return (
+    <section className="bg-white/[0.03] border border-white/10 rounded-3xl p-6 h-full flex flex-col shadow-2xl">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xs font-black text-slate-500 uppercase tracking-widest">{t('history.title')}</h2>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onExport}
+            disabled={busy || items.length === 0}
+            title={t('history.export')}
+            className="p-1.5 rounded-lg text-slate-500 hover:text-white hover:bg-white/5 disabled:opacity-30"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 16v1a2 2 0 002 2h12a2 2 0 002-2v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+            </svg>
+          </button>
+          <button
+            onClick={() => importRef.current?.click()}
+            disabled={busy}
+            title={t('history.import')}
+            className="p-1.5 rounded-lg text-slate-500 hover:text-white hover:bg-white/5 disabled:opacity-30"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 16v1a2 2 0 002 2h12a2 2 0 002-2v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+          </button>
+          <input
+            ref={importRef}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={t('history.search')}
+        className="w-full mb-4 px-3 py-2 rounded-xl bg-black/30 border border-white/10 text-[11px] text-slate-300 placeholder-slate-600 focus:outline-none focus:border-indigo-500/50"
+      />
+
+      <div className="flex-1 overflow-y-auto space-y-4 pr-2 custom-scrollbar">
+        {filtered.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center opacity-20">
+            <div className="w-px h-12 bg-white/20 mb-4"></div>
+            <p className="text-[10px] uppercase font-bold tracking-tighter">{items.length === 0 ? t('history.empty') : t('history.noMatches')}</p>
+          </div>
+        ) : (
+          filtered.map((item) => (
+            <div key={item.id} className="space-y-1.5">
+              <div
+                className={`group relative aspect-square bg-black border rounded-2xl overflow-hidden transition-all shadow-lg ${selectDisabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer hover:border-indigo-500'} ${item.pinned ? 'border-amber-400/40' : 'border-white/5'}`}
+              >
+                <HistoryThumbnail blob={item.thumbnail} onClick={() => !selectDisabled && onSelect(item)} />
+                <div className="absolute top-2 right-2 flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => onTogglePin(item)}
+                    title={item.pinned ? t('history.unpin') : t('history.pin')}
+                    className={`bg-black/60 p-1.5 rounded-lg hover:bg-amber-500 ${item.pinned ? 'text-amber-300' : 'text-white'}`}
+                  >
+                    <svg className="w-3.5 h-3.5" fill={item.pinned ? 'currentColor' : 'none'} viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => onView(item)}
+                    title={t('history.view')}
+                    className="bg-black/60 p-1.5 rounded-lg text-white hover:bg-indigo-600"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v3m0 0v3m0-3h3m-3 0H7" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => onDelete(item)}
+                    title={t('common.delete')}
+                    className="bg-black/60 p-1.5 rounded-lg text-white hover:bg-red-600"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  </button>
+                </div>
+                <div className="absolute inset-0 bg-indigo-600/20 opacity-0 group-hover:opacity-100 flex items-center justify-center transition-all pointer-events-none"></div>
+              </div>
+              <p className="text-[10px] text-slate-500 truncate" title={item.promptUsed}>
+                {formatDateTime(item.timestamp)}
+              </p>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-white/5 flex items-center justify-between text-[10px] text-slate-500 font-mono">
+        <span>{t('history.usage', { used: formatNumber(usedBytes / BYTES_PER_MB, 1) })}</span>
+        <label className="flex items-center space-x-1">
+          <input
+            type="number"
+            min={MIN_QUOTA_MB}
+            step={50}
+            value={quotaDraft}
+            onChange={(e) => setQuotaDraft(e.target.value)}
+            onBlur={commitQuota}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+            }}
+            title={t('history.quota')}
+            className="w-16 px-1.5 py-0.5 rounded-md bg-black/30 border border-white/10 text-right text-slate-300"
+          />
+          <span>{t('history.megabytes')}</span>
+        </label>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,43 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale, MessageKey, MessageParams, Translate, loadLocale, localeTag, saveLocale, translate } from '../services/i18n';
+
+interface I18nValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+  formatDateTime: (timestamp: number) => string;
+  formatNumber: (value: number, fractionDigits?: number) => string;
+}
+
+const makeValue = (locale: Locale, setLocale: (locale: Locale) => void): I18nValue => {
+  const tag = localeTag(locale);
+  const dateTime = new Intl.DateTimeFormat(tag, { dateStyle: 'medium', timeStyle: 'short' });
+  return {
+    locale,
+    setLocale,
+    t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    formatDateTime: (timestamp) => dateTime.format(timestamp),
+    formatNumber: (value, fractionDigits = 0) =>
+      value.toLocaleString(tag, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits })
+  };
+};
+
+// English without a provider, so components still render on their own.
+const I18nContext = createContext<I18nValue>(makeValue('en', () => {}));
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(loadLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo(() => makeValue(locale, (next) => {
+    setLocaleState(next);
+    saveLocale(next);
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nValue => useContext(I18nContext);
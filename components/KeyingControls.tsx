@@ -0,0 +1,95 @@
+import React from 'react';
+import { KeyingSettings } from '../types';
+import { DEFAULT_KEYING } from '../services/keyer';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface KeyingControlsProps {
+  settings: KeyingSettings;
+  onChange: (settings: KeyingSettings) => void;
+  despillEnabled: boolean;
+  isRefining: boolean;
+}
+
+interface SliderSpec {
+  key: 'tolerance' | 'softness' | 'choke' | 'feather' | 'despill';
+  label: MessageKey;
+  min: number;
+  max: number;
+  unit: string;
+  hint: MessageKey;
+}
+
+const SLIDERS: SliderSpec[] = [
+  { key: 'tolerance', label: 'keying.tolerance', min: 0, max: 100, unit: '%', hint: 'keying.toleranceHint' },
+  { key: 'softness', label: 'keying.softness', min: 0, max: 100, unit: '%', hint: 'keying.softnessHint' },
+  { key: 'choke', label: 'keying.choke', min: -10, max: 10, unit: 'px', hint: 'keying.chokeHint' },
+  { key: 'feather', label: 'keying.feather', min: 0, max: 20, unit: 'px', hint: 'keying.featherHint' },
+  { key: 'despill', label: 'keying.despill', min: 0, max: 100, unit: '%', hint: 'keying.despillHint' }
+];
+
+export const KeyingControls: React.FC<KeyingControlsProps> = ({ settings, onChange, despillEnabled, isRefining }) => {
+  const { t } = useI18n();
+  const update = (patch: Partial<KeyingSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="text-[11px] font-bold text-slate-400" htmlFor="key-color">{t('keying.keyColor')}</label>
+        <div className="flex items-center space-x-2">
+          <span className="text-[10px] font-mono text-slate-500 uppercase">{settings.keyColor}</span>
+          <input
+            id="key-color"
+            type="color"
+            value={settings.keyColor}
+            onChange={(e) => update({ keyColor: e.target.value.toUpperCase() })}
+            className="w-7 h-7 rounded-lg bg-transparent border border-white/10 cursor-pointer"
+          />
+        </div>
+      </div>
+
+      {SLIDERS.map((slider) => {
+        const disabled = slider.key === 'despill' && !despillEnabled;
+        return (
+          <div key={slider.key} className={disabled ? 'opacity-40' : ''}>
+            <div className="flex items-center justify-between mb-1">
+              <label
+                htmlFor={`keying-${slider.key}`}
+                className="text-[11px] font-bold text-slate-400"
+                title={t(disabled ? 'keying.despillDisabled' : slider.hint)}
+              >
+                {t(slider.label)}
+              </label>
+              <span className="text-[10px] font-mono text-slate-500">
+                {settings[slider.key]}{slider.unit}
+              </span>
+            </div>
+            <input
+              id={`keying-${slider.key}`}
+              type="range"
+              min={slider.min}
+              max={slider.max}
+              step={1}
+              disabled={disabled}
+              value={settings[slider.key]}
+              onChange={(e) => update({ [slider.key]: Number(e.target.value) })}
+              className="w-full accent-indigo-500"
+            />
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between pt-2">
+        <span className={`text-[10px] uppercase font-bold tracking-widest ${isRefining ? 'text-indigo-400 animate-pulse' : 'text-slate-600'}`}>
+          {isRefining ? t('keying.updating') : t('keying.live')}
+        </span>
+        <button
+          onClick={() => onChange(DEFAULT_KEYING)}
+          className="text-[10px] font-bold text-slate-500 hover:text-white uppercase tracking-widest"
+        >
+          {t('common.reset')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,486 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { OutputMode } from '../types';
+import { loadImage } from '../services/imageProcessing';
+import { describeError } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+type Tool = 'brush' | 'rect' | 'polygon';
+type BrushMode = 'keep' | 'erase';
+
+interface MaskEditorProps {
+  image: string; // Current punched result (Base64 PNG)
+  original: string; // Untouched source, revealed where the keep brush restores keyed-out pixels
+  outputMode: OutputMode;
+  onApply: (edited: string) => void;
+  onCancel: () => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+interface MaskPatch extends Rect {
+  before: Uint8ClampedArray;
+  after: Uint8ClampedArray;
+}
+
+const MAX_UNDO = 50;
+const POLYGON_CLOSE_DISTANCE = 12; // Screen pixels
+
+const unionRect = (a: Rect | null, b: Rect): Rect => {
+  if (!a) return b;
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return { x, y, w: Math.max(a.x + a.w, b.x + b.w) - x, h: Math.max(a.y + a.h, b.y + b.h) - y };
+};
+
+const clampRect = (r: Rect, width: number, height: number): Rect | null => {
+  const x = Math.max(0, Math.floor(r.x));
+  const y = Math.max(0, Math.floor(r.y));
+  const x2 = Math.min(width, Math.ceil(r.x + r.w));
+  const y2 = Math.min(height, Math.ceil(r.y + r.h));
+  return x2 > x && y2 > y ? { x, y, w: x2 - x, h: y2 - y } : null;
+};
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({ image, original, outputMode, onApply, onCancel }) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pixelsRef = useRef<ImageData | null>(null);
+  const snapshotRef = useRef<Uint8ClampedArray | null>(null);
+  const dirtyRef = useRef<Rect | null>(null);
+  const lastPointRef = useRef<Point | null>(null);
+  const undoRef = useRef<MaskPatch[]>([]);
+  const redoRef = useRef<MaskPatch[]>([]);
+
+  const [dims, setDims] = useState<{ w: number; h: number } | null>(null);
+  const [tool, setTool] = useState<Tool>('brush');
+  const [mode, setMode] = useState<BrushMode>('erase');
+  const [brushSize, setBrushSize] = useState(40);
+  const [hardness, setHardness] = useState(60);
+  const [showGhost, setShowGhost] = useState(true);
+  const [cursor, setCursor] = useState<Point | null>(null);
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  const [polygon, setPolygon] = useState<Point[]>([]);
+  const [historySize, setHistorySize] = useState({ undo: 0, redo: 0 });
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Builds one full-size RGBA buffer: RGB from the result where it is still
+  // visible and from the source where it was keyed out; alpha is the matte.
+  // In 'original' mode every partially transparent pixel takes the source RGB,
+  // since the canvas only keeps premultiplied, quantised colour there.
+  useEffect(() => {
+    let active = true;
+    (async () => {
+      try {
+        const [result, source] = await Promise.all([loadImage(image), loadImage(original)]);
+        if (!active) return;
+        const w = result.naturalWidth;
+        const h = result.naturalHeight;
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+        if (!canvas || !ctx) return;
+        canvas.width = w;
+        canvas.height = h;
+
+        ctx.drawImage(source, 0, 0, w, h);
+        const base = ctx.getImageData(0, 0, w, h);
+        ctx.clearRect(0, 0, w, h);
+        ctx.drawImage(result, 0, 0);
+        const pixels = ctx.getImageData(0, 0, w, h);
+        const data = pixels.data;
+        const below = outputMode === 'original' ? 255 : 1;
+        for (let i = 0; i < data.length; i += 4) {
+          if (data[i + 3] < below) {
+            data[i] = base.data[i];
+            data[i + 1] = base.data[i + 1];
+            data[i + 2] = base.data[i + 2];
+          }
+        }
+        ctx.putImageData(pixels, 0, 0);
+        pixelsRef.current = pixels;
+        undoRef.current = [];
+        redoRef.current = [];
+        setHistorySize({ undo: 0, redo: 0 });
+        setDims({ w, h });
+      } catch (e: any) {
+        if (active) setLoadError(describeError(e, 'maskEditor.loadFailed', t));
+      }
+    })();
+    return () => {
+      active = false;
+    };
+  }, [image, original, outputMode]);
+
+  const repaint = (rect: Rect) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx && pixelsRef.current) ctx.putImageData(pixelsRef.current, 0, 0, rect.x, rect.y, rect.w, rect.h);
+  };
+
+  const readMatte = (rect: Rect, source: Uint8ClampedArray, stride: number, channel: number): Uint8ClampedArray => {
+    const out = new Uint8ClampedArray(rect.w * rect.h);
+    for (let y = 0; y < rect.h; y++) {
+      for (let x = 0; x < rect.w; x++) {
+        out[y * rect.w + x] = source[((rect.y + y) * dims!.w + rect.x + x) * stride + channel];
+      }
+    }
+    return out;
+  };
+
+  const writeMatte = (rect: Rect, values: Uint8ClampedArray) => {
+    const data = pixelsRef.current!.data;
+    for (let y = 0; y < rect.h; y++) {
+      for (let x = 0; x < rect.w; x++) {
+        data[((rect.y + y) * dims!.w + rect.x + x) * 4 + 3] = values[y * rect.w + x];
+      }
+    }
+    repaint(rect);
+  };
+
+  const beginEdit = () => {
+    const data = pixelsRef.current!.data;
+    const snapshot = snapshotRef.current?.length === data.length / 4
+      ? snapshotRef.current
+      : new Uint8ClampedArray(data.length / 4);
+    for (let p = 0, i = 3; p < snapshot.length; p++, i += 4) snapshot[p] = data[i];
+    snapshotRef.current = snapshot;
+    dirtyRef.current = null;
+  };
+
+  const commitEdit = () => {
+    const dirty = dirtyRef.current && dims ? clampRect(dirtyRef.current, dims.w, dims.h) : null;
+    dirtyRef.current = null;
+    if (!dirty || !snapshotRef.current) return;
+    undoRef.current = [
+      ...undoRef.current.slice(-(MAX_UNDO - 1)),
+      {
+        ...dirty,
+        before: readMatte(dirty, snapshotRef.current, 1, 0),
+        after: readMatte(dirty, pixelsRef.current!.data, 4, 3)
+      }
+    ];
+    redoRef.current = [];
+    setHistorySize({ undo: undoRef.current.length, redo: 0 });
+  };
+
+  const blend = (index: number, coverage: number) => {
+    const data = pixelsRef.current!.data;
+    const a = data[index];
+    data[index] = mode === 'keep' ? a + (255 - a) * coverage : a * (1 - coverage);
+  };
+
+  const stamp = (center: Point) => {
+    if (!dims) return;
+    const radius = brushSize / 2;
+    const rect = clampRect({ x: center.x - radius, y: center.y - radius, w: radius * 2, h: radius * 2 }, dims.w, dims.h);
+    if (!rect) return;
+    const solid = radius * (hardness / 100);
+    const ramp = Math.max(1e-3, radius - solid);
+    for (let y = rect.y; y < rect.y + rect.h; y++) {
+      for (let x = rect.x; x < rect.x + rect.w; x++) {
+        const d = Math.hypot(x + 0.5 - center.x, y + 0.5 - center.y);
+        if (d > radius) continue;
+        const coverage = d <= solid ? 1 : 1 - (d - solid) / ramp;
+        blend((y * dims.w + x) * 4 + 3, coverage);
+      }
+    }
+    dirtyRef.current = unionRect(dirtyRef.current, rect);
+    repaint(rect);
+  };
+
+  const strokeTo = (from: Point, to: Point) => {
+    const spacing = Math.max(1, brushSize * 0.15);
+    const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / spacing));
+    for (let s = 1; s <= steps; s++) {
+      stamp({ x: from.x + ((to.x - from.x) * s) / steps, y: from.y + ((to.y - from.y) * s) / steps });
+    }
+  };
+
+  // Rasterises a closed shape with the canvas for antialiased coverage.
+  const fillShape = (points: Point[]) => {
+    if (!dims || points.length < 3) return;
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    const rect = clampRect({ x: minX, y: minY, w: Math.max(...xs) - minX, h: Math.max(...ys) - minY }, dims.w, dims.h);
+    if (!rect) return;
+
+    const mask = document.createElement('canvas');
+    mask.width = rect.w;
+    mask.height = rect.h;
+    const maskCtx = mask.getContext('2d', { willReadFrequently: true });
+    if (!maskCtx) return;
+    maskCtx.translate(-rect.x, -rect.y);
+    maskCtx.beginPath();
+    points.forEach((p, i) => (i === 0 ? maskCtx.moveTo(p.x, p.y) : maskCtx.lineTo(p.x, p.y)));
+    maskCtx.closePath();
+    maskCtx.fillStyle = '#fff';
+    maskCtx.fill();
+    const coverage = maskCtx.getImageData(0, 0, rect.w, rect.h).data;
+
+    beginEdit();
+    for (let y = 0; y < rect.h; y++) {
+      for (let x = 0; x < rect.w; x++) {
+        const c = coverage[(y * rect.w + x) * 4 + 3];
+        if (c > 0) blend(((rect.y + y) * dims.w + rect.x + x) * 4 + 3, c / 255);
+      }
+    }
+    dirtyRef.current = rect;
+    repaint(rect);
+    commitEdit();
+  };
+
+  const undo = useCallback(() => {
+    const patch = undoRef.current.pop();
+    if (!patch) return;
+    writeMatte(patch, patch.before);
+    redoRef.current.push(patch);
+    setHistorySize({ undo: undoRef.current.length, redo: redoRef.current.length });
+  }, [dims]);
+
+  const redo = useCallback(() => {
+    const patch = redoRef.current.pop();
+    if (!patch) return;
+    writeMatte(patch, patch.after);
+    undoRef.current.push(patch);
+    setHistorySize({ undo: undoRef.current.length, redo: redoRef.current.length });
+  }, [dims]);
+
+  const closePolygon = () => {
+    fillShape(polygon);
+    setPolygon([]);
+  };
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      // Shortcuts typed into other fields belong to those fields.
+      if ((e.target as HTMLElement | null)?.closest?.('input, textarea, select, [contenteditable="true"]')) return;
+      const mod = e.ctrlKey || e.metaKey;
+      if (mod && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        e.shiftKey ? redo() : undo();
+      } else if (mod && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        redo();
+      } else if (e.key === 'Enter' && polygon.length >= 3) {
+        closePolygon();
+      } else if (e.key === 'Escape') {
+        setPolygon([]);
+        setDragStart(null);
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  const toImagePoint = (e: React.PointerEvent | React.MouseEvent): Point => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height
+    };
+  };
+
+  const screenScale = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return 1;
+    return canvas.width / canvas.getBoundingClientRect().width;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dims || e.button !== 0) return;
+    const point = toImagePoint(e);
+    if (tool === 'brush') {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      beginEdit();
+      stamp(point);
+      lastPointRef.current = point;
+    } else if (tool === 'rect') {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDragStart(point);
+    } else {
+      const first = polygon[0];
+      if (first && polygon.length >= 3 && Math.hypot(point.x - first.x, point.y - first.y) < POLYGON_CLOSE_DISTANCE * screenScale()) {
+        closePolygon();
+      } else {
+        setPolygon(prev => [...prev, point]);
+      }
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toImagePoint(e);
+    setCursor(point);
+    if (tool === 'brush' && lastPointRef.current) {
+      strokeTo(lastPointRef.current, point);
+      lastPointRef.current = point;
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (tool === 'brush' && lastPointRef.current) {
+      lastPointRef.current = null;
+      commitEdit();
+    } else if (tool === 'rect' && dragStart) {
+      const end = toImagePoint(e);
+      fillShape([
+        dragStart,
+        { x: end.x, y: dragStart.y },
+        end,
+        { x: dragStart.x, y: end.y }
+      ]);
+      setDragStart(null);
+    }
+  };
+
+  const handleApply = () => {
+    const canvas = canvasRef.current;
+    if (canvas) onApply(canvas.toDataURL('image/png'));
+  };
+
+  const toolButton = (value: Tool, label: string) => (
+    <button
+      key={value}
+      onClick={() => {
+        setTool(value);
+        setPolygon([]);
+      }}
+      className={`px-3 py-1.5 rounded-full text-[11px] font-bold transition-all ${tool === value ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+    >
+      {label}
+    </button>
+  );
+
+  const rectPreview = dragStart && cursor && tool === 'rect'
+    ? {
+        x: Math.min(dragStart.x, cursor.x),
+        y: Math.min(dragStart.y, cursor.y),
+        w: Math.abs(cursor.x - dragStart.x),
+        h: Math.abs(cursor.y - dragStart.y)
+      }
+    : null;
+
+  return (
+    <div className="w-full h-full flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-3 bg-black/50 backdrop-blur-md rounded-2xl p-3 border border-white/10">
+        <div className="flex items-center bg-white/5 rounded-full p-1 border border-white/10">
+          {toolButton('brush', t('maskEditor.brush'))}
+          {toolButton('rect', t('maskEditor.rectangle'))}
+          {toolButton('polygon', t('maskEditor.polygon'))}
+        </div>
+
+        <div className="flex items-center bg-white/5 rounded-full p-1 border border-white/10">
+          <button
+            onClick={() => setMode('keep')}
+            className={`px-3 py-1.5 rounded-full text-[11px] font-bold transition-all ${mode === 'keep' ? 'bg-emerald-600 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            {t('maskEditor.keep')}
+          </button>
+          <button
+            onClick={() => setMode('erase')}
+            className={`px-3 py-1.5 rounded-full text-[11px] font-bold transition-all ${mode === 'erase' ? 'bg-red-600 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            {t('maskEditor.erase')}
+          </button>
+        </div>
+
+        {tool === 'brush' && (
+          <>
+            <label className="flex items-center space-x-2 text-[11px] font-bold text-slate-400">
+              <span>{t('maskEditor.size')}</span>
+              <input type="range" min={2} max={400} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-24 accent-indigo-500" />
+              <span className="font-mono text-[10px] text-slate-500 w-10">{brushSize}px</span>
+            </label>
+            <label className="flex items-center space-x-2 text-[11px] font-bold text-slate-400">
+              <span>{t('maskEditor.hardness')}</span>
+              <input type="range" min={0} max={100} value={hardness} onChange={(e) => setHardness(Number(e.target.value))} className="w-20 accent-indigo-500" />
+              <span className="font-mono text-[10px] text-slate-500 w-8">{hardness}%</span>
+            </label>
+          </>
+        )}
+
+        {tool === 'polygon' && (
+          <span className="text-[10px] text-slate-500">{t('maskEditor.polygonHint')}</span>
+        )}
+
+        <label className="flex items-center space-x-2 text-[11px] font-bold text-slate-400 cursor-pointer">
+          <input type="checkbox" checked={showGhost} onChange={(e) => setShowGhost(e.target.checked)} className="accent-indigo-500" />
+          <span>{t('maskEditor.ghost')}</span>
+        </label>
+
+        <div className="flex items-center space-x-2 ml-auto">
+          <button onClick={undo} disabled={historySize.undo === 0} title={t('maskEditor.undoTitle')} className="px-3 py-1.5 rounded-xl text-[11px] font-bold text-slate-300 bg-white/5 hover:bg-white/10 disabled:opacity-30">
+            {t('common.undo')}
+          </button>
+          <button onClick={redo} disabled={historySize.redo === 0} title={t('maskEditor.redoTitle')} className="px-3 py-1.5 rounded-xl text-[11px] font-bold text-slate-300 bg-white/5 hover:bg-white/10 disabled:opacity-30">
+            {t('common.redo')}
+          </button>
+          <button onClick={onCancel} className="px-3 py-1.5 rounded-xl text-[11px] font-bold text-slate-400 hover:text-white">
+            {t('common.cancel')}
+          </button>
+          <button onClick={handleApply} disabled={!dims} className="bg-white text-black px-4 py-1.5 rounded-xl text-[11px] font-black hover:bg-slate-200 disabled:opacity-30">
+            {t('common.apply')}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center min-h-0">
+        {loadError ? (
+          <p className="text-red-400 text-xs">{loadError}</p>
+        ) : (
+          <div
+            className="relative inline-block rounded-2xl overflow-hidden ring-1 ring-white/10"
+            style={{ backgroundImage: 'linear-gradient(45deg, #222 25%, transparent 25%), linear-gradient(-45deg, #222 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #222 75%), linear-gradient(-45deg, transparent 75%, #222 75%)', backgroundSize: '20px 20px', backgroundPosition: '0 0, 0 10px, 10px -10px, -10px 0px', backgroundColor: '#111' }}
+          >
+            {showGhost && (
+              <img src={original} alt="" className="absolute inset-0 w-full h-full opacity-25 pointer-events-none" />
+            )}
+            <canvas
+              ref={canvasRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              onPointerLeave={() => setCursor(null)}
+              onDoubleClick={() => polygon.length >= 3 && closePolygon()}
+              className="relative block max-w-full max-h-[65vh] cursor-crosshair touch-none"
+            />
+            {dims && (
+              <svg
+                className="absolute inset-0 w-full h-full pointer-events-none"
+                viewBox={`0 0 ${dims.w} ${dims.h}`}
+                preserveAspectRatio="none"
+              >
+                {tool === 'brush' && cursor && (
+                  <circle cx={cursor.x} cy={cursor.y} r={brushSize / 2} fill="none" stroke="white" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+                )}
+                {rectPreview && (
+                  <rect x={rectPreview.x} y={rectPreview.y} width={rectPreview.w} height={rectPreview.h} fill="rgba(99,102,241,0.15)" stroke="#818cf8" strokeWidth={1.5} strokeDasharray="6 4" vectorEffect="non-scaling-stroke" />
+                )}
+                {polygon.length > 0 && (
+                  <polyline
+                    points={[...polygon, ...(cursor ? [cursor] : [])].map(p => `${p.x},${p.y}`).join(' ')}
+                    fill="rgba(99,102,241,0.15)"
+                    stroke="#818cf8"
+                    strokeWidth={1.5}
+                    strokeDasharray="6 4"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                )}
+              </svg>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
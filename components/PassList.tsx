@@ -0,0 +1,92 @@
+import React from 'react';
+import { MaskOperation, MaskPass } from '../types';
+import { MASK_OPERATIONS, activePasses, movePass } from '../services/maskPasses';
+import { useI18n } from './I18nProvider';
+
+interface PassListProps {
+  passes: MaskPass[];
+  presetLabel: string; // Preset a new pass will use
+  busy: boolean;
+  onChange: (passes: MaskPass[]) => void;
+  onRerun: (id: string) => void;
+  onAdd: (operation: MaskOperation) => void;
+}
+
+const iconButton = 'p-1 rounded-md text-slate-500 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent';
+
+export const PassList: React.FC<PassListProps> = ({ passes, presetLabel, busy, onChange, onRerun, onAdd }) => {
+  const { t } = useI18n();
+  const baseId = activePasses(passes)[0]?.id;
+
+  const update = (id: string, patch: Partial<MaskPass>) => {
+    onChange(passes.map(pass => (pass.id === id ? { ...pass, ...patch } : pass)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {passes.map((pass, index) => (
+        <div
+          key={pass.id}
+          className={`flex items-center gap-2 p-2 rounded-xl border text-[11px] ${pass.enabled ? 'bg-black/20 border-white/5' : 'bg-black/10 border-white/5 opacity-50'}`}
+        >
+          <input
+            type="checkbox"
+            checked={pass.enabled}
+            onChange={(e) => update(pass.id, { enabled: e.target.checked })}
+            disabled={busy}
+            title={t('passes.include')}
+            className="accent-indigo-500"
+          />
+          {pass.id === baseId ? (
+            <span className="w-20 text-center text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('passes.base')}</span>
+          ) : (
+            <select
+              value={pass.operation}
+              onChange={(e) => update(pass.id, { operation: e.target.value as MaskOperation })}
+              disabled={busy}
+              className="w-20 px-1 py-0.5 rounded-md bg-black/30 border border-white/10 text-slate-200"
+            >
+              {MASK_OPERATIONS.map(op => <option key={op.id} value={op.id}>{t(`maskOp.${op.id}` as const)}</option>)}
+            </select>
+          )}
+          <span className="flex-1 truncate font-bold text-slate-300" title={pass.prompt}>{pass.label}</span>
+          {!pass.modelOutput && <span className="text-[10px] text-amber-400">{t('passes.pending')}</span>}
+          <button onClick={() => onChange(movePass(passes, pass.id, -1))} disabled={busy || index === 0} title={t('passes.moveUp')} className={iconButton}>
+            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 15l7-7 7 7" />
+            </svg>
+          </button>
+          <button onClick={() => onChange(movePass(passes, pass.id, 1))} disabled={busy || index === passes.length - 1} title={t('passes.moveDown')} className={iconButton}>
+            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+          <button onClick={() => onRerun(pass.id)} disabled={busy} title={t('passes.rerun')} className={iconButton}>
+            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+          </button>
+          <button onClick={() => onChange(passes.filter(p => p.id !== pass.id))} disabled={busy} title={t('passes.remove')} className={`${iconButton} hover:bg-red-600`}>
+            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2 pt-1 text-[10px]">
+        <span className="font-bold text-slate-500 uppercase tracking-widest truncate" title={presetLabel}>{t('passes.addAs', { label: presetLabel })}</span>
+        {MASK_OPERATIONS.map(op => (
+          <button
+            key={op.id}
+            onClick={() => onAdd(op.id)}
+            disabled={busy}
+            className="px-2 py-1 rounded-lg font-bold text-indigo-400 bg-indigo-500/5 hover:bg-indigo-500/20 hover:text-white disabled:opacity-30"
+          >
+            {op.symbol} {t(`maskOp.${op.id}` as const)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import React, { useRef, useState } from 'react';
+import { PresetPrompt } from '../types';
+import {
+  BUILTIN_VARIABLES,
+  DEFAULT_PRESETS,
+  createPresetId,
+  exportPresets,
+  importPresets,
+  renderPresetPrompt,
+  templateVariables
+} from '../services/presetLibrary';
+import { downloadBlob } from '../services/exporters';
+import { describeError, localizePreset } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface PresetManagerProps {
+  presets: PresetPrompt[];
+  selectedId: string;
+  keyColor: string;
+  onSelect: (id: string) => void;
+  onChange: (presets: PresetPrompt[]) => void;
+  onError: (message: string) => void;
+}
+
+const iconButton = 'p-1.5 rounded-lg text-slate-500 hover:text-white hover:bg-white/10';
+
+export const PresetManager: React.FC<PresetManagerProps> = ({ presets, selectedId, keyColor, onSelect, onChange, onError }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<PresetPrompt | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const saveDraft = () => {
+    if (!draft || !draft.label.trim() || !draft.text.trim()) return;
+    // Only keep values for placeholders the template still uses.
+    const used = templateVariables(draft.text);
+    const variables = Object.fromEntries(used.map(name => [name, draft.variables?.[name] ?? '']));
+    const cleaned = { ...draft, label: draft.label.trim(), variables: used.length ? variables : undefined };
+    const exists = presets.some(p => p.id === cleaned.id);
+    onChange(exists ? presets.map(p => (p.id === cleaned.id ? cleaned : p)) : [...presets, cleaned]);
+    onSelect(cleaned.id);
+    setDraft(null);
+  };
+
+  const duplicate = (preset: PresetPrompt) => {
+    setDraft({ ...preset, id: createPresetId(), label: t('preset.copyName', { label: localizePreset(preset, t).label }), variables: preset.variables && { ...preset.variables } });
+  };
+
+  const remove = (preset: PresetPrompt) => {
+    if (presets.length <= 1) return;
+    if (!window.confirm(t('preset.confirmDelete', { label: localizePreset(preset, t).label }))) return;
+    const next = presets.filter(p => p.id !== preset.id);
+    onChange(next);
+    if (selectedId === preset.id) onSelect(next[0].id);
+  };
+
+  const handleExport = () => {
+    downloadBlob(exportPresets(presets), 'alphapunch-presets.json');
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      onChange(await importPresets(file, presets));
+    } catch (e: any) {
+      onError(describeError(e, 'preset.importFailed', t));
+    }
+  };
+
+  if (draft) {
+    const variables = templateVariables(draft.text);
+    return (
+      <div className="space-y-3">
+        <input
+          value={draft.label}
+          onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+          placeholder={t('preset.name')}
+          className="w-full px-3 py-2 rounded-xl bg-black/30 border border-white/10 text-xs text-slate-200 focus:outline-none focus:border-indigo-500/50"
+        />
+        <input
+          value={draft.description}
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          placeholder={t('preset.descriptionPlaceholder')}
+          className="w-full px-3 py-2 rounded-xl bg-black/30 border border-white/10 text-xs text-slate-200 focus:outline-none focus:border-indigo-500/50"
+        />
+        <textarea
+          value={draft.text}
+          onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+          rows={6}
+          placeholder={t('preset.promptPlaceholder')}
+          className="w-full px-3 py-2 rounded-xl bg-black/30 border border-white/10 text-[11px] leading-relaxed text-slate-200 font-mono focus:outline-none focus:border-indigo-500/50"
+        />
+        <p className="text-[10px] text-slate-500">
+          {t('preset.builtinVariables', { names: BUILTIN_VARIABLES.map(name => `{{${name}}}`).join(', ') })}
+        </p>
+        {variables.map(name => (
+          <label key={name} className="flex items-center gap-2 text-[11px] text-slate-400">
+            <span className="font-mono w-24 truncate">{name}</span>
+            <input
+              value={draft.variables?.[name] ?? ''}
+              onChange={(e) => setDraft({ ...draft, variables: { ...draft.variables, [name]: e.target.value } })}
+              className="flex-1 px-2 py-1 rounded-lg bg-black/30 border border-white/10 text-xs text-slate-200"
+            />
+          </label>
+        ))}
+        <div className="p-3 rounded-xl bg-indigo-500/5 border border-indigo-500/10">
+          <p className="text-[10px] font-bold text-indigo-400 uppercase mb-1">{t('preset.preview')}</p>
+          <p className="text-[11px] text-slate-400 leading-relaxed">{renderPresetPrompt(draft, keyColor)}</p>
+        </div>
+        <div className="flex justify-end gap-2">
+          <button onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-xl text-[11px] font-bold text-slate-400 hover:text-white">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={saveDraft}
+            disabled={!draft.label.trim() || !draft.text.trim()}
+            className="px-4 py-1.5 rounded-xl text-[11px] font-black bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-30"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {presets.map((preset) => (
+        <div key={preset.id} className="group relative">
+          <button
+            onClick={() => onSelect(preset.id)}
+            className={`w-full text-left p-4 pr-24 rounded-2xl transition-all border ${
+              selectedId === preset.id
+                ? 'bg-indigo-600/10 border-indigo-500/50 text-white ring-1 ring-indigo-500/20'
+                : 'bg-black/20 border-white/5 text-slate-400 hover:border-white/10'
+            }`}
+          >
+            <div className="font-bold text-sm">{localizePreset(preset, t).label}</div>
+            <div className="text-[10px] opacity-60 mt-0.5">{localizePreset(preset, t).description}</div>
+          </button>
+          <div className="absolute top-1/2 -translate-y-1/2 right-2 flex opacity-0 group-hover:opacity-100 transition-opacity">
+            <button onClick={() => setDraft({ ...preset })} title={t('preset.edit')} className={iconButton}>
+              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+              </svg>
+            </button>
+            <button onClick={() => duplicate(preset)} title={t('preset.duplicate')} className={iconButton}>
+              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+              </svg>
+            </button>
+            <button onClick={() => remove(preset)} disabled={presets.length <= 1} title={t('common.delete')} className={`${iconButton} hover:bg-red-600 disabled:opacity-30`}>
+              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between pt-1">
+        <button
+          onClick={() => setDraft({ id: createPresetId(), label: '', description: '', text: '', variables: {} })}
+          className="text-[10px] font-bold text-indigo-400 hover:text-indigo-300 uppercase tracking-widest"
+        >
+          {t('preset.new')}
+        </button>
+        <div className="flex items-center gap-3 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+          <button onClick={() => importRef.current?.click()} className="hover:text-white">{t('preset.import')}</button>
+          <button onClick={handleExport} className="hover:text-white">{t('preset.export')}</button>
+          <button
+            onClick={() => {
+              if (window.confirm(t('preset.confirmReset'))) {
+                onChange(DEFAULT_PRESETS);
+                onSelect(DEFAULT_PRESETS[0].id);
+              }
+            }}
+            className="hover:text-white"
+          >
+            {t('common.reset')}
+          </button>
+        </div>
+        <input
+          ref={importRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { SceneAnalysis, SceneType } from '../types';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface SceneOverlayProps {
+  image: string;
+  analysis: SceneAnalysis;
+  selectedIds: number[]; // Empty means every window
+  onChange: (ids: number[]) => void;
+}
+
+const SCENE_TYPE_LABELS: Record<SceneType, MessageKey> = {
+  interior: 'scene.type.interior',
+  exterior: 'scene.type.exterior',
+  portrait: 'scene.type.portrait',
+  product: 'scene.type.product',
+  other: 'scene.type.other'
+};
+
+export const SceneOverlay: React.FC<SceneOverlayProps> = ({ image, analysis, selectedIds, onChange }) => {
+  const { t } = useI18n();
+  const toggle = (id: number) => {
+    onChange(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id].sort((a, b) => a - b));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1.5 text-[10px] font-bold uppercase tracking-widest">
+        <span className="px-2 py-0.5 rounded-md bg-indigo-500/10 text-indigo-300">{t(SCENE_TYPE_LABELS[analysis.sceneType])}</span>
+        <span className="px-2 py-0.5 rounded-md bg-white/5 text-slate-400">
+          {t('scene.windows', { count: analysis.windows.length })}
+        </span>
+        {analysis.hasSubject && <span className="px-2 py-0.5 rounded-md bg-emerald-500/10 text-emerald-300">{t('scene.subject')}</span>}
+      </div>
+      {analysis.summary && <p className="text-[11px] text-slate-400 leading-relaxed italic">"{analysis.summary}"</p>}
+
+      {analysis.windows.length > 0 && (
+        <>
+          <div className="relative rounded-xl overflow-hidden ring-1 ring-white/10">
+            <img src={image} alt={t('scene.imageAlt')} className="block w-full" />
+            {analysis.windows.map(({ id, box }) => {
+              const selected = selectedIds.includes(id);
+              return (
+                <button
+                  key={id}
+                  onClick={() => toggle(id)}
+                  title={t(selected ? 'scene.windowSelected' : 'scene.window', { id })}
+                  className={`absolute border-2 rounded-sm transition-colors ${
+                    selected ? 'border-indigo-400 bg-indigo-500/30' : 'border-white/60 bg-transparent hover:bg-white/10'
+                  }`}
+                  style={{ left: `${box.x * 100}%`, top: `${box.y * 100}%`, width: `${box.width * 100}%`, height: `${box.height * 100}%` }}
+                >
+                  <span className="absolute top-0 left-0 px-1 text-[9px] font-black bg-black/70 text-white">{id}</span>
+                </button>
+              );
+            })}
+          </div>
+          <div className="flex items-center justify-between text-[10px]">
+            <span className="text-slate-500">
+              {selectedIds.length ? t('scene.limited', { ids: selectedIds.join(', ') }) : t('scene.hint')}
+            </span>
+            {selectedIds.length > 0 && (
+              <button onClick={() => onChange([])} className="font-bold text-indigo-400 hover:text-white uppercase tracking-widest">
+                {t('common.clear')}
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
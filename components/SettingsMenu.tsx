@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GenerationSettings } from '../types';
+import { listProviders } from '../services/providers';
+import { localizeProvider } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface SettingsMenuProps {
+  providerId: string;
+  onProviderChange: (id: string) => void;
+  generation: GenerationSettings;
+  onGenerationChange: (settings: GenerationSettings) => void;
+}
+
+export const SettingsMenu: React.FC<SettingsMenuProps> = ({ providerId, onProviderChange, generation, onGenerationChange }) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    window.addEventListener('mousedown', close);
+    return () => window.removeEventListener('mousedown', close);
+  }, [open]);
+
+  return (
+    <div ref={rootRef} className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        title={t('settings.title')}
+        className={`p-2.5 rounded-full border border-white/10 transition-colors ${open ? 'bg-white/10 text-white' : 'bg-white/5 text-slate-400 hover:text-white'}`}
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 rounded-2xl bg-[#111] border border-white/10 shadow-2xl p-4 z-[110] space-y-2">
+          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('settings.backend')}</p>
+          {listProviders().map(provider => {
+            const text = localizeProvider(provider, t);
+            return (
+            <button
+              key={provider.id}
+              onClick={() => onProviderChange(provider.id)}
+              className={`w-full text-left px-3 py-2 rounded-xl border transition-all ${
+                providerId === provider.id
+                  ? 'bg-indigo-600/10 border-indigo-500/50 text-white'
+                  : 'border-white/5 text-slate-400 hover:border-white/10'
+              }`}
+            >
+              <div className="text-xs font-bold">{text.label}</div>
+              <div className="text-[10px] opacity-60">{text.description}</div>
+            </button>
+            );
+          })}
+
+          <p className="pt-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('settings.requests')}</p>
+          <label className="flex items-center justify-between text-[11px] text-slate-400">
+            <span>{t('settings.timeout')}</span>
+            <input
+              type="number"
+              min={0}
+              max={600}
+              value={generation.timeoutSec}
+              onChange={(e) => onGenerationChange({ ...generation, timeoutSec: Math.max(0, Math.min(600, Number(e.target.value) || 0)) })}
+              className="w-16 px-2 py-1 rounded-lg bg-black/30 border border-white/10 text-xs text-slate-200 text-right"
+            />
+          </label>
+          <label className="flex items-center justify-between text-[11px] text-slate-400">
+            <span>{t('settings.retries')}</span>
+            <input
+              type="number"
+              min={0}
+              max={5}
+              value={generation.maxRetries}
+              onChange={(e) => onGenerationChange({ ...generation, maxRetries: Math.max(0, Math.min(5, Number(e.target.value) || 0)) })}
+              className="w-16 px-2 py-1 rounded-lg bg-black/30 border border-white/10 text-xs text-slate-200 text-right"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import { BatchItem, ImageProvider, KeyingSettings, OutputMode } from '../types';
+import { backoffDelay, classifyError, editWithTimeout, wait } from './generation';
+import { blobToDataUrl, dataUrlToBlob } from './imageProcessing';
+import { runPunchJob } from './punchWorker';
+import { createZip } from './zip';
+
+export interface BatchJobConfig {
+  provider: ImageProvider;
+  prompt: string;
+  usePro: boolean;
+  settings: KeyingSettings;
+  mode: OutputMode;
+  timeoutMs: number;
+}
+
+export interface BatchRunOptions {
+  concurrency: number;
+  maxRetries: number;
+  signal: AbortSignal;
+  onItemUpdate: (id: string, patch: Partial<BatchItem>) => void;
+}
+
+/** Runs one file through the same generate-then-key pipeline as a single cut. */
+export const processBatchFile = async (file: File, config: BatchJobConfig, signal: AbortSignal): Promise<Blob> => {
+  const source = await blobToDataUrl(file);
+  const modelOutput = await editWithTimeout(config.provider, {
+    image: source,
+    mimeType: file.type || 'image/png',
+    prompt: config.prompt,
+    usePro: config.usePro
+  }, config.timeoutMs, signal);
+  const result = await runPunchJob(modelOutput, {
+    settings: config.settings,
+    mode: config.mode,
+    sourceBase64: source
+  }, { signal });
+  return dataUrlToBlob(result);
+};
+
+/**
+ * Works through every queued item with at most `concurrency` in flight.
+ * Transient failures are retried with exponential backoff before being marked
+ * failed; items interrupted by cancellation go back to 'queued'.
+ */
+export const runBatchQueue = async (
+  items: BatchItem[],
+  config: BatchJobConfig,
+  options: BatchRunOptions
+): Promise<void> => {
+  const { signal, onItemUpdate, maxRetries } = options;
+  const queue = items.filter(item => item.status === 'queued');
+  let cursor = 0;
+
+  const runItem = async (item: BatchItem) => {
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (signal.aborted) break;
+      onItemUpdate(item.id, { status: 'processing', attempts: item.attempts + attempt + 1, error: undefined, errorKind: undefined });
+      try {
+        const result = await processBatchFile(item.file, config, signal);
+        onItemUpdate(item.id, { status: 'done', result });
+        return;
+      } catch (e) {
+        if (signal.aborted) break;
+        const error = classifyError(e);
+        if (!error.retryable || attempt === maxRetries) {
+          onItemUpdate(item.id, {
+            status: 'failed',
+            error: error.kind === 'unknown' ? error.detail ?? error.message : error.message,
+            errorKind: error.kind
+          });
+          return;
+        }
+        await wait(backoffDelay(attempt), signal);
+      }
+    }
+    onItemUpdate(item.id, { status: 'queued' });
+  };
+
+  const lane = async () => {
+    while (cursor < queue.length && !signal.aborted) {
+      await runItem(queue[cursor++]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(options.concurrency, queue.length)) }, lane));
+};
+
+const baseName = (name: string) => name.replace(/\.[^./\\]+$/, '') || 'image';
+
+/** Zips finished results as PNGs named after their source files. */
+export const createBatchZip = async (items: BatchItem[]): Promise<Blob> => {
+  const used = new Set<string>();
+  const entries = items
+    .filter(item => item.status === 'done' && item.result)
+    .map(item => {
+      const path = item.file.webkitRelativePath || item.file.name;
+      const stem = baseName(path);
+      let name = `${stem}.png`;
+      for (let n = 2; used.has(name); n++) name = `${stem} (${n}).png`;
+      used.add(name);
+      return { name, data: item.result! };
+    });
+  return createZip(entries);
+};
@@ -0,0 +1,241 @@
+import { CompositeSettings, Point, Quad, WindowRegion } from '../types';
+import { LocalizedError } from './localizedError';
+
+export const DEFAULT_COMPOSITE: CompositeSettings = {
+  offsetX: 0,
+  offsetY: 0,
+  scale: 1,
+  blur: 0,
+  colorMatch: 0
+};
+
+// Below this alpha a pixel counts as part of a window hole.
+const HOLE_ALPHA = 250;
+// Holes smaller than this share of the frame are specks, not windows.
+const MIN_REGION_SHARE = 0.002;
+
+export const rectQuad = (x: number, y: number, width: number, height: number): Quad => [
+  { x, y },
+  { x: x + width, y },
+  { x: x + width, y: y + height },
+  { x, y: y + height }
+];
+
+const isRectQuad = (region: WindowRegion) =>
+  region.quad.every((p, i) => {
+    const r = rectQuad(region.x, region.y, region.width, region.height)[i];
+    return Math.abs(p.x - r.x) < 0.5 && Math.abs(p.y - r.y) < 0.5;
+  });
+
+/**
+ * Finds the connected transparent areas of a cut (4-connected flood fill),
+ * largest first. Each starts with an unwarped quad on its bounding box.
+ */
+export const findWindowRegions = (alpha: ImageData): WindowRegion[] => {
+  const { width: w, height: h, data } = alpha;
+  const seen = new Uint8Array(w * h);
+  const stack = new Int32Array(w * h);
+  const minArea = Math.max(16, w * h * MIN_REGION_SHARE);
+  const found: (WindowRegion & { area: number })[] = [];
+
+  for (let start = 0; start < w * h; start++) {
+    if (seen[start] || data[start * 4 + 3] >= HOLE_ALPHA) continue;
+    let top = 0;
+    let area = 0;
+    let minX = w, minY = h, maxX = 0, maxY = 0;
+    stack[top++] = start;
+    seen[start] = 1;
+    while (top > 0) {
+      const i = stack[--top];
+      const x = i % w;
+      const y = (i - x) / w;
+      area++;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      const neighbours = [x > 0 ? i - 1 : -1, x < w - 1 ? i + 1 : -1, y > 0 ? i - w : -1, y < h - 1 ? i + w : -1];
+      for (const n of neighbours) {
+        if (n >= 0 && !seen[n] && data[n * 4 + 3] < HOLE_ALPHA) {
+          seen[n] = 1;
+          stack[top++] = n;
+        }
+      }
+    }
+    if (area < minArea) continue;
+    const width = maxX - minX + 1;
+    const height = maxY - minY + 1;
+    found.push({ id: 0, x: minX, y: minY, width, height, quad: rectQuad(minX, minY, width, height), area });
+  }
+
+  return found
+    .sort((a, b) => b.area - a.area)
+    .map(({ area, ...region }, i) => ({ ...region, id: i + 1 }));
+};
+
+/**
+ * Solves the 3x3 projective transform taking each `from` corner to the
+ * matching `to` corner (h33 fixed at 1), by Gaussian elimination.
+ */
+export const solveHomography = (from: Quad, to: Quad): number[] => {
+  const a: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-10) throw new LocalizedError('compositor.degenerate');
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const f = a[row][col] / a[col][col];
+      for (let k = col; k < 9; k++) a[row][k] -= f * a[col][k];
+    }
+  }
+  return [...a.map((row, i) => row[8] / row[i]), 1];
+};
+
+const project = (m: number[], x: number, y: number): Point => {
+  const d = m[6] * x + m[7] * y + m[8];
+  return { x: (m[0] * x + m[1] * y + m[2]) / d, y: (m[3] * x + m[4] * y + m[5]) / d };
+};
+
+const channelStats = (data: Uint8ClampedArray, include: (i: number) => boolean) => {
+  const sum = [0, 0, 0];
+  const sq = [0, 0, 0];
+  let n = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (!include(i)) continue;
+    for (let c = 0; c < 3; c++) {
+      sum[c] += data[i + c];
+      sq[c] += data[i + c] * data[i + c];
+    }
+    n++;
+  }
+  if (n === 0) return null;
+  const mean = sum.map(s => s / n);
+  const std = sq.map((s, c) => Math.sqrt(Math.max(0, s / n - mean[c] * mean[c])));
+  return { mean, std };
+};
+
+/**
+ * Pulls the background's per-channel mean and contrast toward the room's,
+ * measured where each is visible, so the view picks up the interior light.
+ */
+export const matchColors = (background: Uint8ClampedArray, cut: Uint8ClampedArray, strength: number): void => {
+  const t = Math.max(0, Math.min(1, strength / 100));
+  if (t === 0) return;
+  const room = channelStats(cut, i => cut[i + 3] >= HOLE_ALPHA);
+  const view = channelStats(background, i => cut[i + 3] < HOLE_ALPHA) ?? channelStats(background, () => true);
+  if (!room || !view) return;
+  const gain = view.std.map((s, c) => Math.max(0.5, Math.min(2, s > 1 ? room.std[c] / s : 1)));
+  for (let i = 0; i < background.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const v = background[i + c];
+      const matched = (v - view.mean[c]) * gain[c] + room.mean[c];
+      background[i + c] = v + (matched - v) * t;
+    }
+  }
+};
+
+/**
+ * Re-projects the background inside each warped window: the part of the
+ * background under the window's bounding box is mapped onto its quad.
+ * Pixels outside any warped window are left as placed.
+ */
+export const warpWindows = (
+  background: ImageData,
+  cut: Uint8ClampedArray,
+  regions: WindowRegion[],
+  scale: number
+): ImageData => {
+  const { width: w, height: h, data: src } = background;
+  const out = new ImageData(new Uint8ClampedArray(src), w, h);
+  const dst = out.data;
+
+  for (const region of regions) {
+    if (isRectQuad(region)) continue;
+    const rect = rectQuad(region.x * scale, region.y * scale, region.width * scale, region.height * scale);
+    const quad = region.quad.map(p => ({ x: p.x * scale, y: p.y * scale })) as Quad;
+    const toSource = solveHomography(quad, rect);
+    // Two pixels of slack so soft window edges get the warped view too.
+    const x0 = Math.max(0, Math.floor(rect[0].x) - 2);
+    const y0 = Math.max(0, Math.floor(rect[0].y) - 2);
+    const x1 = Math.min(w, Math.ceil(rect[2].x) + 2);
+    const y1 = Math.min(h, Math.ceil(rect[2].y) + 2);
+
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const o = (y * w + x) * 4;
+        if (cut[o + 3] >= HOLE_ALPHA) continue;
+        const p = project(toSource, x + 0.5, y + 0.5);
+        const sx = Math.max(0, Math.min(w - 1.001, p.x - 0.5));
+        const sy = Math.max(0, Math.min(h - 1.001, p.y - 0.5));
+        const ix = Math.floor(sx);
+        const iy = Math.floor(sy);
+        const fx = sx - ix;
+        const fy = sy - iy;
+        const i00 = (iy * w + ix) * 4;
+        const i10 = i00 + 4;
+        const i01 = i00 + w * 4;
+        const i11 = i01 + 4;
+        for (let c = 0; c < 4; c++) {
+          const top = src[i00 + c] + (src[i10 + c] - src[i00 + c]) * fx;
+          const bottom = src[i01 + c] + (src[i11 + c] - src[i01 + c]) * fx;
+          dst[o + c] = top + (bottom - top) * fy;
+        }
+      }
+    }
+  }
+  return out;
+};
+
+interface CompositeInput {
+  cut: HTMLImageElement;
+  background: HTMLImageElement;
+  settings: CompositeSettings;
+  regions: WindowRegion[];
+  scale?: number; // Output size relative to the cut, for previews
+}
+
+/** Places, blurs, colour-matches and warps the background, then flattens the cut over it. */
+export const renderComposite = ({ cut, background, settings, regions, scale = 1 }: CompositeInput): HTMLCanvasElement => {
+  const w = Math.max(1, Math.round(cut.naturalWidth * scale));
+  const h = Math.max(1, Math.round(cut.naturalHeight * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas context not available');
+
+  ctx.drawImage(cut, 0, 0, w, h);
+  const cutData = ctx.getImageData(0, 0, w, h).data;
+  ctx.clearRect(0, 0, w, h);
+
+  const cover = Math.max(w / background.naturalWidth, h / background.naturalHeight) * settings.scale;
+  const bw = background.naturalWidth * cover;
+  const bh = background.naturalHeight * cover;
+  // Blurring fades the edges toward transparent, so overscan by the blur radius.
+  const bleed = settings.blur * scale * 2;
+  if (settings.blur > 0) ctx.filter = `blur(${settings.blur * scale}px)`;
+  ctx.drawImage(
+    background,
+    (w - bw) / 2 + settings.offsetX * w - bleed,
+    (h - bh) / 2 + settings.offsetY * h - bleed,
+    bw + bleed * 2,
+    bh + bleed * 2
+  );
+  ctx.filter = 'none';
+
+  const placed = ctx.getImageData(0, 0, w, h);
+  matchColors(placed.data, cutData, settings.colorMatch);
+  ctx.putImageData(warpWindows(placed, cutData, regions, scale), 0, 0);
+  ctx.drawImage(cut, 0, 0, w, h);
+  return canvas;
+};
@@ -0,0 +1,249 @@
+import {
+  EvalConfig,
+  EvalResult,
+  EvalSample,
+  GenerationSettings,
+  ImageProvider,
+  KeyingSettings,
+  MaskMetrics,
+  OutputMode,
+  PresetPrompt
+} from '../types';
+import { classifyError, generateWithRetry } from './generation';
+import { Translate, localizeError, localizePreset } from './i18n';
+import { blobToDataUrl, loadImage } from './imageProcessing';
+import { computeMaskMetrics, meanMetrics, renderMaskDiff } from './maskMetrics';
+import { renderPresetPrompt } from './presetLibrary';
+import { isAbortError, runPunchJob } from './punchWorker';
+
+// Ground truth is told apart by a name suffix (photo_mask.png) or a parent folder (masks/photo.png).
+const TRUTH_SUFFIX = /[._-](mask|matte|gt|alpha)$/i;
+const TRUTH_FOLDER = /(^|\/)(masks?|mattes?|gt|ground[ _-]?truth)\//i;
+
+const pathOf = (file: File) => file.webkitRelativePath || file.name;
+const stemOf = (path: string) => (path.split('/').pop() ?? path).replace(/\.[^.]+$/, '');
+const isTruth = (file: File) => TRUTH_SUFFIX.test(stemOf(pathOf(file))) || TRUTH_FOLDER.test(pathOf(file));
+const pairKey = (file: File) => stemOf(pathOf(file)).replace(TRUTH_SUFFIX, '').toLowerCase();
+
+/** Matches sources to ground-truth mattes by file name; anything left over is returned as unmatched. */
+export const pairSamples = (files: File[]): { samples: EvalSample[]; unmatched: File[] } => {
+  const images = files.filter(file => file.type.startsWith('image/'));
+  const truths = new Map<string, File>();
+  images.filter(isTruth).forEach(file => truths.set(pairKey(file), file));
+
+  const samples: EvalSample[] = [];
+  const unmatched: File[] = [];
+  images.filter(file => !isTruth(file)).forEach((source, i) => {
+    const key = pairKey(source);
+    const truth = truths.get(key);
+    if (!truth) {
+      unmatched.push(source);
+      return;
+    }
+    truths.delete(key);
+    samples.push({ id: `${Date.now()}-${i}-${key}`, name: stemOf(pathOf(source)), source, truth });
+  });
+  return { samples, unmatched: [...unmatched, ...truths.values()] };
+};
+
+const readPixels = async (src: string, width?: number, height?: number) => {
+  const img = await loadImage(src);
+  const w = width ?? img.naturalWidth;
+  const h = height ?? img.naturalHeight;
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas context not available');
+  ctx.drawImage(img, 0, 0, w, h);
+  return { width: w, height: h, data: ctx.getImageData(0, 0, w, h).data };
+};
+
+const alphaOf = (rgba: Uint8ClampedArray): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(rgba.length / 4);
+  for (let p = 0, i = 3; p < out.length; p++, i += 4) out[p] = rgba[i];
+  return out;
+};
+
+/**
+ * Ground truth may be a transparent cut-out or an opaque greyscale mask
+ * (white = kept, like the Mask PNG export); any transparency decides which.
+ */
+const truthMatte = (rgba: Uint8ClampedArray): Uint8ClampedArray => {
+  const alpha = alphaOf(rgba);
+  if (alpha.some(a => a < 255)) return alpha;
+  const out = new Uint8ClampedArray(alpha.length);
+  for (let p = 0, i = 0; p < out.length; p++, i += 4) {
+    out[p] = rgba[i] * 0.299 + rgba[i + 1] * 0.587 + rgba[i + 2] * 0.114;
+  }
+  return out;
+};
+
+const toDataUrl = (rgba: Uint8ClampedArray, width: number, height: number): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+  ctx.putImageData(new ImageData(rgba, width, height), 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+/** Scores a transparent result against a ground-truth image, resampling the result to the truth's size. */
+export const scoreResult = async (result: string, truth: string, source: string) => {
+  const gt = await readPixels(truth);
+  const [pred, src] = await Promise.all([
+    readPixels(result, gt.width, gt.height),
+    readPixels(source, gt.width, gt.height)
+  ]);
+  const gtMatte = truthMatte(gt.data);
+  const predMatte = alphaOf(pred.data);
+  return {
+    metrics: computeMaskMetrics(predMatte, gtMatte, gt.width, gt.height),
+    diff: toDataUrl(renderMaskDiff(predMatte, gtMatte, src.data), gt.width, gt.height)
+  };
+};
+
+export interface EvaluationRunConfig {
+  provider: ImageProvider;
+  presets: PresetPrompt[];
+  settings: KeyingSettings;
+  mode: OutputMode;
+  generation: GenerationSettings;
+}
+
+export interface EvaluationRunOptions {
+  signal: AbortSignal;
+  onResult: (result: EvalResult) => void;
+}
+
+/**
+ * Runs every sample through every configuration, one at a time so results
+ * are not skewed by rate limiting. Stops quietly when `signal` fires.
+ */
+export const runEvaluation = async (
+  samples: EvalSample[],
+  configs: EvalConfig[],
+  run: EvaluationRunConfig,
+  { signal, onResult }: EvaluationRunOptions
+): Promise<void> => {
+  for (const sample of samples) {
+    let source: string;
+    let truth: string;
+    try {
+      [source, truth] = await Promise.all([blobToDataUrl(sample.source), blobToDataUrl(sample.truth)]);
+    } catch (e) {
+      console.warn("Sample unreadable", e);
+      configs.forEach(config => onResult({ sampleId: sample.id, configId: config.id, status: 'failed', errorKey: 'eval.readFailed' }));
+      continue;
+    }
+    for (const config of configs) {
+      if (signal.aborted) return;
+      const base = { sampleId: sample.id, configId: config.id };
+      const preset = run.presets.find(p => p.id === config.presetId);
+      if (!preset) {
+        onResult({ ...base, status: 'failed', errorKey: 'eval.presetMissing' });
+        continue;
+      }
+      onResult({ ...base, status: 'processing' });
+      try {
+        const modelOutput = await generateWithRetry(run.provider, {
+          image: source,
+          mimeType: sample.source.type || 'image/png',
+          prompt: renderPresetPrompt(preset, run.settings.keyColor),
+          usePro: config.usePro
+        }, { settings: run.generation, signal });
+        const result = await runPunchJob(modelOutput, {
+          settings: run.settings,
+          mode: run.mode,
+          sourceBase64: source
+        }, { signal });
+        onResult({ ...base, status: 'done', ...(await scoreResult(result, truth, source)) });
+      } catch (e) {
+        if (isAbortError(e) || signal.aborted) {
+          onResult({ ...base, status: 'queued' });
+          return;
+        }
+        const error = classifyError(e);
+        onResult({
+          ...base,
+          status: 'failed',
+          error: error.kind === 'unknown' ? error.detail ?? error.message : error.message,
+          errorKind: error.kind
+        });
+      }
+    }
+  }
+};
+
+const presetName = (presetId: string, presets: PresetPrompt[], t: Translate): string => {
+  const preset = presets.find(p => p.id === presetId);
+  return preset ? localizePreset(preset, t).label : presetId;
+};
+
+export const describeConfig = (config: EvalConfig, presets: PresetPrompt[], t: Translate): string =>
+  `${presetName(config.presetId, presets, t)} · ${config.usePro ? t('model.proShort') : t('model.standard')}`;
+
+export const summarizeConfig = (results: EvalResult[], configId: string): MaskMetrics | undefined =>
+  meanMetrics(results.filter(r => r.configId === configId && r.metrics).map(r => r.metrics!));
+
+const round = (v: number | undefined) => (v === undefined ? null : Math.round(v * 10000) / 10000);
+
+interface ReportInput {
+  provider: ImageProvider;
+  samples: EvalSample[];
+  configs: EvalConfig[];
+  presets: PresetPrompt[];
+  results: EvalResult[];
+  t: Translate; // Names and errors are written in the UI language
+}
+
+const reportRows = ({ samples, configs, presets, results, t }: ReportInput) =>
+  results.map(r => {
+    const config = configs.find(c => c.id === r.configId);
+    return {
+      sample: samples.find(s => s.id === r.sampleId)?.name ?? r.sampleId,
+      preset: config ? presetName(config.presetId, presets, t) : '',
+      model: config?.usePro ? 'pro' : 'standard',
+      status: r.status,
+      iou: round(r.metrics?.iou),
+      boundaryF: round(r.metrics?.boundaryF),
+      alphaError: round(r.metrics?.alphaError),
+      error: localizeError(r, t) ?? null
+    };
+  });
+
+export const evaluationReportJson = (input: ReportInput): Blob => {
+  const report = {
+    app: 'AlphaPunch',
+    createdAt: new Date().toISOString(),
+    provider: input.provider.id,
+    summary: input.configs.map(config => {
+      const mean = summarizeConfig(input.results, config.id);
+      return {
+        config: describeConfig(config, input.presets, input.t),
+        presetId: config.presetId,
+        model: config.usePro ? 'pro' : 'standard',
+        scored: input.results.filter(r => r.configId === config.id && r.metrics).length,
+        iou: round(mean?.iou),
+        boundaryF: round(mean?.boundaryF),
+        alphaError: round(mean?.alphaError)
+      };
+    }),
+    results: reportRows(input)
+  };
+  return new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+};
+
+const csvCell = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One row per sample and configuration; per-configuration means are in the JSON report. */
+export const evaluationReportCsv = (input: ReportInput): Blob => {
+  const rows = reportRows(input);
+  const header = ['sample', 'preset', 'model', 'status', 'iou', 'boundaryF', 'alphaError', 'error'] as const;
+  const lines = [header.join(','), ...rows.map(row => header.map(key => csvCell(row[key])).join(','))];
+  return new Blob([lines.join('\n') + '\n'], { type: 'text/csv' });
+};
@@ -0,0 +1,157 @@
+import { ExportSubject } from '../types';
+import { dataUrlToBlob, loadImage } from './imageProcessing';
+import { LocalizedError } from './localizedError';
+import { writePsd } from './psdWriter';
+import { regionsToCoco, regionsToGeoJson, regionsToSvg, vectorizeAlpha } from './vectorize';
+
+export type ExportFormat = 'png' | 'webp' | 'avif' | 'mask' | 'psd' | 'json' | 'svg' | 'geojson' | 'coco';
+
+// Menu order; labels and descriptions are in the catalogs under export.<id>.*
+export const EXPORT_FORMATS: ExportFormat[] = ['png', 'webp', 'avif', 'mask', 'psd', 'json', 'svg', 'geojson', 'coco'];
+
+const LOSSY_QUALITY = 0.92;
+
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const formatName = (type: string) => type.replace('image/', '').toUpperCase();
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new LocalizedError('export.encodeFailed', { format: formatName(type) }))), type, quality);
+  });
+
+const readImage = async (src: string, width?: number, height?: number) => {
+  const img = await loadImage(src);
+  const w = width ?? img.naturalWidth;
+  const h = height ?? img.naturalHeight;
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas context not available');
+  ctx.drawImage(img, 0, 0, w, h);
+  return { canvas, ctx, data: ctx.getImageData(0, 0, w, h) };
+};
+
+// Browsers silently fall back to PNG for types they cannot encode.
+const encodeWithAlpha = async (subject: ExportSubject, type: string): Promise<Blob> => {
+  const { canvas } = await readImage(subject.image);
+  const blob = await canvasToBlob(canvas, type, LOSSY_QUALITY);
+  if (blob.type !== type) throw new LocalizedError('export.formatUnsupported', { format: formatName(type) });
+  return blob;
+};
+
+const exportMask = async (subject: ExportSubject): Promise<Blob> => {
+  const { canvas, ctx, data } = await readImage(subject.image);
+  const px = data.data;
+  for (let i = 0; i < px.length; i += 4) {
+    px[i] = px[i + 1] = px[i + 2] = px[i + 3];
+    px[i + 3] = 255;
+  }
+  ctx.putImageData(data, 0, 0);
+  return canvasToBlob(canvas, 'image/png');
+};
+
+/**
+ * One layer holding the untouched original with the result's alpha as its
+ * layer mask, so retouchers can paint the mask instead of the pixels.
+ */
+const exportPsd = async (subject: ExportSubject): Promise<Blob> => {
+  const result = await readImage(subject.image);
+  const { width, height } = result.canvas;
+  const resultPx = result.data.data;
+
+  const mask = new Uint8ClampedArray(width * height);
+  for (let p = 0, i = 3; p < mask.length; p++, i += 4) mask[p] = resultPx[i];
+
+  let layerPixels: Uint8ClampedArray;
+  if (subject.original) {
+    layerPixels = (await readImage(subject.original, width, height)).data.data;
+  } else {
+    layerPixels = new Uint8ClampedArray(resultPx);
+    for (let i = 3; i < layerPixels.length; i += 4) layerPixels[i] = 255;
+  }
+
+  const composite = new Uint8ClampedArray(resultPx.length);
+  for (let i = 0; i < resultPx.length; i += 4) {
+    const a = resultPx[i + 3] / 255;
+    composite[i] = resultPx[i] * a + 255 * (1 - a);
+    composite[i + 1] = resultPx[i + 1] * a + 255 * (1 - a);
+    composite[i + 2] = resultPx[i + 2] * a + 255 * (1 - a);
+    composite[i + 3] = 255;
+  }
+
+  return writePsd({
+    width,
+    height,
+    composite,
+    layers: [{ name: subject.original ? 'Original' : 'Cut-out', pixels: layerPixels, mask }]
+  });
+};
+
+const exportSidecar = async (subject: ExportSubject): Promise<Blob> => {
+  const img = await loadImage(subject.image);
+  const sidecar = {
+    app: 'AlphaPunch',
+    exportedAt: new Date().toISOString(),
+    width: img.naturalWidth,
+    height: img.naturalHeight,
+    prompt: subject.promptUsed ?? null,
+    model: subject.usePro === undefined ? null : subject.usePro ? 'pro' : 'standard',
+    outputMode: subject.outputMode ?? null,
+    keying: subject.keying ?? null
+  };
+  return new Blob([JSON.stringify(sidecar, null, 2)], { type: 'application/json' });
+};
+
+type VectorFormat = 'svg' | 'geojson' | 'coco';
+
+/** Traces the transparent part of the result; coordinates are image pixels. */
+const exportVector = async (subject: ExportSubject, format: VectorFormat, stem: string): Promise<Blob> => {
+  const { canvas, data } = await readImage(subject.image);
+  const { width, height } = canvas;
+  const regions = vectorizeAlpha(data.data, width, height);
+  if (format === 'svg') return new Blob([regionsToSvg(regions, width, height)], { type: 'image/svg+xml' });
+  const doc = format === 'geojson'
+    ? regionsToGeoJson(regions, width, height)
+    : regionsToCoco(regions, width, height, exportFilename('png', stem));
+  return new Blob([JSON.stringify(doc)], { type: 'application/json' });
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  png: 'png',
+  webp: 'webp',
+  avif: 'avif',
+  mask: 'mask.png',
+  psd: 'psd',
+  json: 'json',
+  svg: 'svg',
+  geojson: 'geo.json',
+  coco: 'coco.json'
+};
+
+export const defaultExportStem = (): string => `alphapunch-${Date.now()}`;
+
+export const exportSubject = async (subject: ExportSubject, format: ExportFormat, stem = defaultExportStem()): Promise<Blob> => {
+  switch (format) {
+    case 'png': return dataUrlToBlob(subject.image);
+    case 'webp': return encodeWithAlpha(subject, 'image/webp');
+    case 'avif': return encodeWithAlpha(subject, 'image/avif');
+    case 'mask': return exportMask(subject);
+    case 'psd': return exportPsd(subject);
+    case 'json': return exportSidecar(subject);
+    case 'svg':
+    case 'geojson':
+    case 'coco': return exportVector(subject, format, stem);
+  }
+};
+
+export const exportFilename = (format: ExportFormat, stem = defaultExportStem()): string =>
+  `${stem}.${EXTENSIONS[format]}`;
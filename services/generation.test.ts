@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { AppStatus } from '../types';
+import { GenerationError, classifyError, wait } from './generation';
+
+test('provider messages map onto their kinds', () => {
+  const cases: [string, string][] = [
+    ['429 Too Many Requests', 'quota'],
+    ['RESOURCE_EXHAUSTED: quota exceeded for this project', 'quota'],
+    ['API key not valid. Please pass a valid API key.', 'auth'],
+    ['[403] PERMISSION_DENIED', 'auth'],
+    ['Response was blocked due to IMAGE_SAFETY', 'safety'],
+    ['The model did not return an image', 'no_image'],
+    ['TypeError: fetch failed', 'network'],
+    ['503 Service UNAVAILABLE', 'network'],
+    ['Something odd happened', 'unknown']
+  ];
+  for (const [message, kind] of cases) assert.equal(classifyError(new Error(message)).kind, kind, message);
+});
+
+test('quota wins over other matches in the same message', () => {
+  assert.equal(classifyError(new Error('Network error: rate limit reached')).kind, 'quota');
+});
+
+test('unknown errors keep the original message as detail', () => {
+  const error = classifyError('teapot');
+  assert.equal(error.kind, 'unknown');
+  assert.equal(error.detail, 'teapot');
+  assert.equal(classifyError(undefined).detail, undefined);
+});
+
+test('an empty TypeError is a network failure', () => {
+  assert.equal(classifyError(new TypeError('')).kind, 'network');
+});
+
+test('classified errors pass through and carry their catalog key, status and retry policy', () => {
+  const timeout = new GenerationError('timeout');
+  assert.equal(classifyError(timeout), timeout);
+  assert.equal(timeout.key, 'generationError.timeout');
+  assert.equal(timeout.status, AppStatus.TIMED_OUT);
+  assert.equal(timeout.retryable, true);
+  assert.equal(classifyError(new Error('quota')).retryable, true);
+  assert.equal(classifyError(new Error('blocked')).retryable, false);
+  assert.equal(classifyError(new Error('UNAUTHENTICATED')).status, AppStatus.INVALID_KEY);
+});
+
+test('wait returns as soon as its signal aborts', async () => {
+  const controller = new AbortController();
+  const started = Date.now();
+  const waiting = wait(60_000, controller.signal);
+  controller.abort();
+  await waiting;
+  assert.ok(Date.now() - started < 1000);
+});
@@ -0,0 +1,151 @@
+import { AppStatus, EditImageRequest, GenerationErrorKind, GenerationSettings, ImageProvider } from '../types';
+import { LocalizedError } from './localizedError';
+
+const STORAGE_KEY = 'alphapunch.generation';
+const RETRY_BASE_DELAY_MS = 1000;
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  timeoutSec: 90,
+  maxRetries: 2
+};
+
+const STATUS_BY_KIND: Record<GenerationErrorKind, AppStatus> = {
+  quota: AppStatus.RATE_LIMITED,
+  safety: AppStatus.BLOCKED,
+  no_image: AppStatus.NO_IMAGE,
+  network: AppStatus.NETWORK_ERROR,
+  auth: AppStatus.INVALID_KEY,
+  timeout: AppStatus.TIMED_OUT,
+  unknown: AppStatus.ERROR
+};
+
+const RETRYABLE: GenerationErrorKind[] = ['quota', 'no_image', 'network', 'timeout'];
+
+// The wording lives in the catalogs under generationError.*; `message` is the English one.
+export class GenerationError extends LocalizedError {
+  readonly kind: GenerationErrorKind;
+  readonly detail?: string;
+
+  constructor(kind: GenerationErrorKind, detail?: string) {
+    super(`generationError.${kind}`);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.detail = detail;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+
+  get status(): AppStatus {
+    return STATUS_BY_KIND[this.kind];
+  }
+}
+
+const isAbort = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+const PATTERNS: [GenerationErrorKind, RegExp][] = [
+  ['quota', /quota|rate[ -]?limit|RESOURCE_EXHAUSTED|too many requests|\b429\b/i],
+  ['auth', /api[ _-]?key|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED|\b40[13]\b/i],
+  ['safety', /safety|blocked|PROHIBITED_CONTENT|IMAGE_SAFETY|RECITATION/i],
+  ['no_image', /no image|did not return an image|without an image/i],
+  ['network', /network|failed to fetch|fetch failed|load failed|ECONN|ETIMEDOUT|UNAVAILABLE|\b50[234]\b/i]
+];
+
+/** Maps a provider or transport failure onto one of the user-facing categories. */
+export const classifyError = (e: unknown): GenerationError => {
+  if (e instanceof GenerationError) return e;
+  const message = e instanceof Error ? e.message : String(e ?? '');
+  if (e instanceof TypeError && !message) return new GenerationError('network');
+  const match = PATTERNS.find(([, pattern]) => pattern.test(message));
+  return new GenerationError(match ? match[0] : 'unknown', message || undefined);
+};
+
+/**
+ * Runs one provider call that can be abandoned: the caller's signal and the
+ * timeout both reject immediately, even if the provider ignores its signal.
+ */
+export const editWithTimeout = (
+  provider: ImageProvider,
+  request: Omit<EditImageRequest, 'signal'>,
+  timeoutMs: number,
+  signal: AbortSignal
+): Promise<string> => {
+  if (signal.aborted) return Promise.reject(new DOMException('Request cancelled', 'AbortError'));
+  const controller = new AbortController();
+
+  return new Promise<string>((resolve, reject) => {
+    const onAbort = () => {
+      controller.abort();
+      reject(new DOMException('Request cancelled', 'AbortError'));
+    };
+    const timer = timeoutMs > 0
+      ? setTimeout(() => {
+          controller.abort();
+          reject(new GenerationError('timeout'));
+        }, timeoutMs)
+      : undefined;
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    provider.editImage({ ...request, signal: controller.signal })
+      .then(resolve, e => reject(isAbort(e) ? e : classifyError(e)))
+      .finally(() => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', onAbort);
+      });
+  });
+};
+
+export const backoffDelay = (attempt: number) => RETRY_BASE_DELAY_MS * 2 ** attempt;
+
+/** Resolves after `ms`, or straight away when `signal` fires; callers check the signal afterwards. */
+export const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+interface GenerateOptions {
+  settings: GenerationSettings;
+  signal: AbortSignal;
+  onRetry?: (attempt: number, error: GenerationError) => void;
+}
+
+/** Edits with timeout, retrying transient failures with exponential backoff. */
+export const generateWithRetry = async (
+  provider: ImageProvider,
+  request: Omit<EditImageRequest, 'signal'>,
+  { settings, signal, onRetry }: GenerateOptions
+): Promise<string> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await editWithTimeout(provider, request, settings.timeoutSec * 1000, signal);
+    } catch (e) {
+      if (isAbort(e)) throw e;
+      const error = classifyError(e);
+      if (!error.retryable || attempt >= settings.maxRetries) throw error;
+      onRetry?.(attempt + 1, error);
+      await wait(backoffDelay(attempt), signal);
+    }
+  }
+};
+
+export const loadGenerationSettings = (): GenerationSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return { ...DEFAULT_GENERATION_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_GENERATION_SETTINGS;
+  }
+};
+
+export const saveGenerationSettings = (settings: GenerationSettings): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,237 @@
+import { HistoryItem, KeyingSettings, OutputMode } from '../types';
+import { createThumbnail, dataUrlToBlob } from './imageProcessing';
+import { LocalizedError } from './localizedError';
+import { createZip, readZip } from './zip';
+
+const DB_NAME = 'alphapunch';
+const DB_VERSION = 1;
+const STORE = 'history';
+
+const QUOTA_STORAGE_KEY = 'alphapunch.historyQuotaMb';
+export const DEFAULT_HISTORY_QUOTA_MB = 500;
+
+const ARCHIVE_FORMAT = 'alphapunch-history';
+const ARCHIVE_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('timestamp', 'timestamp');
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error ?? new Error('Failed to open history database'));
+    };
+  });
+  return dbPromise;
+};
+
+const promisify = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('History database request failed'));
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return promisify(run(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+const byPinnedThenNewest = (a: HistoryItem, b: HistoryItem) =>
+  Number(b.pinned) - Number(a.pinned) || b.timestamp - a.timestamp;
+
+export const listHistory = async (): Promise<HistoryItem[]> => {
+  const items = await withStore<HistoryItem[]>('readonly', store => store.getAll());
+  return items.sort(byPinnedThenNewest);
+};
+
+export const putHistoryItem = (item: HistoryItem): Promise<IDBValidKey> =>
+  withStore('readwrite', store => store.put(item));
+
+export const deleteHistoryItem = (id: string): Promise<undefined> =>
+  withStore('readwrite', store => store.delete(id));
+
+export const setHistoryPinned = async (id: string, pinned: boolean): Promise<void> => {
+  const item = await withStore<HistoryItem | undefined>('readonly', store => store.get(id));
+  if (item) await putHistoryItem({ ...item, pinned });
+};
+
+export const loadHistoryQuotaMb = (): number => {
+  const stored = Number(localStorage.getItem(QUOTA_STORAGE_KEY));
+  return stored > 0 ? stored : DEFAULT_HISTORY_QUOTA_MB;
+};
+
+export const saveHistoryQuotaMb = (mb: number): void => {
+  localStorage.setItem(QUOTA_STORAGE_KEY, String(mb));
+};
+
+/**
+ * Evicts the oldest unpinned items until the stored total fits the quota.
+ * `keepId` is never evicted, so a cut that was just saved keeps its id.
+ */
+export const enforceHistoryQuota = async (quotaMb: number, keepId?: string): Promise<void> => {
+  const limit = quotaMb * 1024 * 1024;
+  const items = await listHistory();
+  let total = items.reduce((sum, item) => sum + item.size, 0);
+  const evictable = items.filter(item => !item.pinned && item.id !== keepId).sort((a, b) => a.timestamp - b.timestamp);
+  for (const item of evictable) {
+    if (total <= limit) break;
+    await deleteHistoryItem(item.id);
+    total -= item.size;
+  }
+};
+
+const measure = (item: Omit<HistoryItem, 'size'>) =>
+  item.original.size + item.generated.size + item.thumbnail.size + (item.modelOutput?.size ?? 0) + (item.composite?.size ?? 0);
+
+export interface NewHistoryEntry {
+  original: string; // Base64
+  generated: string; // Base64 (Transparent)
+  promptUsed: string;
+  modelOutput?: string; // Base64
+  composite?: string; // Base64 (Flattened over a new background)
+  keying?: KeyingSettings;
+  usePro?: boolean;
+  outputMode?: OutputMode;
+}
+
+/** Converts a finished cut to Blobs, stores it and applies the quota. */
+export const addHistoryEntry = async (entry: NewHistoryEntry, quotaMb: number): Promise<HistoryItem> => {
+  const [original, generated, modelOutput, composite] = await Promise.all([
+    dataUrlToBlob(entry.original),
+    dataUrlToBlob(entry.generated),
+    entry.modelOutput ? dataUrlToBlob(entry.modelOutput) : Promise.resolve(undefined),
+    entry.composite ? dataUrlToBlob(entry.composite) : Promise.resolve(undefined)
+  ]);
+  const base = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: Date.now(),
+    original,
+    generated,
+    thumbnail: await createThumbnail(generated),
+    modelOutput,
+    composite,
+    promptUsed: entry.promptUsed,
+    keying: entry.keying,
+    usePro: entry.usePro,
+    outputMode: entry.outputMode,
+    pinned: false
+  };
+  const item: HistoryItem = { ...base, size: measure(base) };
+  await putHistoryItem(item);
+  await enforceHistoryQuota(quotaMb, item.id);
+  return item;
+};
+
+/** Stores a flattened composite next to an existing cut, replacing any earlier one. */
+export const setHistoryComposite = async (id: string, composite: string, quotaMb: number): Promise<boolean> => {
+  const item = await withStore<HistoryItem | undefined>('readonly', store => store.get(id));
+  if (!item) return false;
+  const { size, ...rest } = { ...item, composite: await dataUrlToBlob(composite) };
+  await putHistoryItem({ ...rest, size: measure(rest) });
+  await enforceHistoryQuota(quotaMb, id);
+  return true;
+};
+
+const BLOB_FIELDS = ['original', 'generated', 'thumbnail', 'modelOutput', 'composite'] as const;
+type BlobField = typeof BLOB_FIELDS[number];
+
+interface ArchiveRecord {
+  id: string;
+  timestamp: number;
+  promptUsed: string;
+  keying?: KeyingSettings;
+  usePro?: boolean;
+  outputMode?: OutputMode;
+  pinned: boolean;
+  files: Partial<Record<BlobField, { path: string; type: string }>>;
+}
+
+const extensionFor = (type: string) => type.split('/')[1]?.split('+')[0] || 'bin';
+
+/** Packs the given items into one ZIP: a manifest plus every image Blob. */
+export const exportHistoryArchive = async (items: HistoryItem[]): Promise<Blob> => {
+  const entries: { name: string; data: Blob }[] = [];
+  const records: ArchiveRecord[] = items.map(item => {
+    const files: ArchiveRecord['files'] = {};
+    BLOB_FIELDS.forEach(field => {
+      const blob = item[field];
+      if (!blob) return;
+      const path = `items/${item.id}/${field}.${extensionFor(blob.type)}`;
+      files[field] = { path, type: blob.type };
+      entries.push({ name: path, data: blob });
+    });
+    return {
+      id: item.id,
+      timestamp: item.timestamp,
+      promptUsed: item.promptUsed,
+      keying: item.keying,
+      usePro: item.usePro,
+      outputMode: item.outputMode,
+      pinned: item.pinned,
+      files
+    };
+  });
+
+  const manifest = { format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, exportedAt: Date.now(), items: records };
+  entries.unshift({ name: 'manifest.json', data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }) });
+  return createZip(entries);
+};
+
+/**
+ * Merges an exported archive into the store. Items whose id already exists
+ * are skipped, so importing the same archive twice is harmless.
+ * Returns the number of items added.
+ */
+export const importHistoryArchive = async (archive: Blob, quotaMb: number): Promise<number> => {
+  const entries = await readZip(archive);
+  const files = new Map(entries.map(entry => [entry.name, entry.data]));
+  const manifestBlob = files.get('manifest.json');
+  if (!manifestBlob) throw new LocalizedError('history.archiveNoManifest');
+
+  const manifest = JSON.parse(await manifestBlob.text());
+  if (manifest.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.items)) {
+    throw new LocalizedError('history.archiveInvalid');
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new LocalizedError('history.archiveTooNew', { version: manifest.version });
+  }
+
+  const existing = new Set((await listHistory()).map(item => item.id));
+  let added = 0;
+  for (const record of manifest.items as ArchiveRecord[]) {
+    if (existing.has(record.id)) continue;
+    const blobs: Partial<Record<BlobField, Blob>> = {};
+    for (const field of BLOB_FIELDS) {
+      const ref = record.files[field];
+      const data = ref && files.get(ref.path);
+      if (data) blobs[field] = new Blob([data], { type: ref.type });
+    }
+    if (!blobs.original || !blobs.generated) continue;
+
+    const base = {
+      id: record.id,
+      timestamp: record.timestamp,
+      original: blobs.original,
+      generated: blobs.generated,
+      thumbnail: blobs.thumbnail ?? await createThumbnail(blobs.generated),
+      modelOutput: blobs.modelOutput,
+      composite: blobs.composite,
+      promptUsed: record.promptUsed ?? '',
+      keying: record.keying,
+      usePro: record.usePro,
+      outputMode: record.outputMode,
+      pinned: Boolean(record.pinned)
+    };
+    await putHistoryItem({ ...base, size: measure(base) });
+    added++;
+  }
+  await enforceHistoryQuota(quotaMb);
+  return added;
+};
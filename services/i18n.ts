@@ -0,0 +1,96 @@
+import { GenerationErrorKind, ImageProvider, PresetPrompt } from '../types';
+import { LocalizedError } from './localizedError';
+import { DEFAULT_PRESETS } from './presetLibrary';
+import { en } from './locales/en';
+import { vi } from './locales/vi';
+
+export type Locale = 'en' | 'vi';
+
+/** A plain string, or plural forms picked by the `count` parameter. */
+export type Message = string | { one?: string; other: string };
+
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const STORAGE_KEY = 'alphapunch.locale';
+
+export const LOCALES: { id: Locale; label: string; short: string; tag: string }[] = [
+  { id: 'en', label: 'English', short: 'EN', tag: 'en-US' },
+  { id: 'vi', label: 'Tiếng Việt', short: 'VI', tag: 'vi-VN' }
+];
+
+const CATALOGS: Record<Locale, Catalog> = { en, vi };
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.id === value);
+
+/** The saved choice, else the browser language, else English. */
+export const loadLocale = (): Locale => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (isLocale(stored)) return stored;
+  const browser = navigator.language?.slice(0, 2);
+  return isLocale(browser) ? browser : 'en';
+};
+
+export const saveLocale = (locale: Locale): void => {
+  localStorage.setItem(STORAGE_KEY, locale);
+};
+
+export const localeTag = (locale: Locale): string => LOCALES.find(l => l.id === locale)!.tag;
+
+/** Looks up `key`, picks a plural form from `params.count` and fills {placeholders}. */
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  const message = CATALOGS[locale][key] ?? en[key] ?? key;
+  const text = typeof message === 'string'
+    ? message
+    : (message as Record<string, string>)[new Intl.PluralRules(localeTag(locale)).select(Number(params?.count ?? 0))] ?? message.other;
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
+
+const PRESET_MESSAGES: Record<string, { label: MessageKey; description: MessageKey }> = {
+  'window-punch': { label: 'preset.windowPunch.label', description: 'preset.windowPunch.description' },
+  'remove-bg': { label: 'preset.removeBg.label', description: 'preset.removeBg.description' }
+};
+
+/**
+ * Translates the label and description of built-in presets the user has not
+ * renamed; custom presets and prompt text are shown as written.
+ */
+export const localizePreset = (preset: PresetPrompt, t: Translate): PresetPrompt => {
+  const keys = PRESET_MESSAGES[preset.id];
+  const builtin = DEFAULT_PRESETS.find(p => p.id === preset.id);
+  if (!keys || !builtin) return preset;
+  return {
+    ...preset,
+    label: preset.label === builtin.label ? t(keys.label) : preset.label,
+    description: preset.description === builtin.description ? t(keys.description) : preset.description
+  };
+};
+
+const PROVIDER_MESSAGES: Record<string, { label: MessageKey; description: MessageKey }> = {
+  gemini: { label: 'provider.gemini.label', description: 'provider.gemini.description' },
+  mock: { label: 'provider.mock.label', description: 'provider.mock.description' }
+};
+
+/** Bundled providers are translated; registered third-party ones keep their own text. */
+export const localizeProvider = (provider: ImageProvider, t: Translate): { label: string; description: string } => {
+  const keys = PROVIDER_MESSAGES[provider.id];
+  return keys ? { label: t(keys.label), description: t(keys.description) } : provider;
+};
+
+export const generationErrorKey = (kind: GenerationErrorKind): MessageKey => `generationError.${kind}` as const;
+
+/** Classified failures are shown in the UI language; unclassified ones keep the raw detail. */
+export const localizeError = (
+  failure: { error?: string; errorKind?: GenerationErrorKind; errorKey?: MessageKey },
+  t: Translate
+): string | undefined => {
+  if (failure.errorKey) return t(failure.errorKey);
+  return failure.errorKind && failure.errorKind !== 'unknown' ? t(generationErrorKey(failure.errorKind)) : failure.error;
+};
+
+/** A caught error in the UI language: catalogued failures by their key, anything else as `fallback`. */
+export const describeError = (e: unknown, fallback: MessageKey, t: Translate): string =>
+  e instanceof LocalizedError ? t(e.key, e.params) : t(fallback);
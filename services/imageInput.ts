@@ -0,0 +1,93 @@
+import { blobToDataUrl, loadImage } from './imageProcessing';
+
+export interface PickedImage {
+  base64: string;
+  mimeType: string;
+}
+
+// Formats every provider accepts as-is; anything else is converted to PNG.
+const SUPPORTED_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const CAMERA_STORAGE_KEY = 'alphapunch.camera';
+const CAPTURE_QUALITY = 0.92;
+
+const isImageType = (type: string) => type.startsWith('image/');
+
+const toPng = async (dataUrl: string): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+  ctx.drawImage(img, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+export const readImageBlob = async (blob: Blob): Promise<PickedImage> => {
+  const base64 = await blobToDataUrl(blob);
+  return SUPPORTED_TYPES.includes(blob.type)
+    ? { base64, mimeType: blob.type }
+    : { base64: await toPng(base64), mimeType: 'image/png' };
+};
+
+const fetchImage = async (url: string): Promise<PickedImage> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Image request failed (${response.status})`);
+  const blob = await response.blob();
+  if (!isImageType(blob.type)) throw new Error('The link does not point to an image');
+  return readImageBlob(blob);
+};
+
+// Images dragged out of another tab arrive as markup or an address, not bytes.
+const imageUrlFrom = (data: DataTransfer): string | null => {
+  const html = data.getData('text/html');
+  const src = html && new DOMParser().parseFromString(html, 'text/html').querySelector('img')?.src;
+  if (src) return src;
+  const uri = data.getData('text/uri-list').split(/\r?\n/).find(line => line && !line.startsWith('#'));
+  if (uri) return uri;
+  const text = data.getData('text/plain').trim();
+  return /^(https?:\/\/|data:image\/)\S+$/i.test(text) ? text : null;
+};
+
+/**
+ * The first image in a drop or paste: an image file, or an image address
+ * from a web page. Resolves to null when the transfer holds no image at all;
+ * rejects when one was found but could not be loaded (typically CORS).
+ */
+export const imageFromDataTransfer = async (data: DataTransfer): Promise<PickedImage | null> => {
+  const file = Array.from(data.files).find(f => isImageType(f.type))
+    ?? Array.from(data.items).find(item => item.kind === 'file' && isImageType(item.type))?.getAsFile();
+  if (file) return readImageBlob(file);
+  const url = imageUrlFrom(data);
+  return url ? fetchImage(url) : null;
+};
+
+/** Whether a drag could carry an image, so the drop target can light up before the drop. */
+export const mayContainImage = (data: DataTransfer): boolean =>
+  Array.from(data.types).some(type => type === 'Files' || type === 'text/uri-list' || type === 'text/html');
+
+export const loadCameraId = (): string | undefined => localStorage.getItem(CAMERA_STORAGE_KEY) ?? undefined;
+
+export const saveCameraId = (id: string): void => {
+  localStorage.setItem(CAMERA_STORAGE_KEY, id);
+};
+
+/** Grabs the current video frame at the stream's full resolution. */
+export const captureVideoFrame = (video: HTMLVideoElement): PickedImage => {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+  ctx.drawImage(video, 0, 0);
+  return { base64: canvas.toDataURL('image/jpeg', CAPTURE_QUALITY), mimeType: 'image/jpeg' };
+};
+
+export const canCopyImages = (): boolean =>
+  typeof ClipboardItem !== 'undefined' && typeof navigator.clipboard?.write === 'function';
+
+/** Puts a PNG on the system clipboard so it can be pasted into other apps with its alpha. */
+export const copyImageToClipboard = async (png: Blob | Promise<Blob>): Promise<void> => {
+  // A pending blob is allowed so Safari still sees the click as the user gesture.
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': png })]);
+};
@@ -0,0 +1,169 @@
+import { ImageCodec, KeyingSettings, MaskOperation, OutputMode } from '../types';
+import { applyMatte, combineMattes } from './keyer';
+import { keyRaster } from './pipeline';
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = src;
+  });
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read image data'));
+    reader.readAsDataURL(blob);
+  });
+};
+
+/** Downscales to fit `maxSize` on the long edge, keeping alpha. */
+export const createThumbnail = async (image: Blob, maxSize = 256): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const ctx = createContext(Math.max(1, Math.round(bitmap.width * scale)), Math.max(1, Math.round(bitmap.height * scale)));
+  ctx.drawImage(bitmap, 0, 0, ctx.canvas.width, ctx.canvas.height);
+  bitmap.close();
+  return new Promise((resolve, reject) => {
+    ctx.canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to encode thumbnail'))),
+      'image/webp',
+      0.85
+    );
+  });
+};
+
+const createContext = (width: number, height: number): CanvasRenderingContext2D => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas context not available');
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  return ctx;
+};
+
+const readPixels = (img: CanvasImageSource, width: number, height: number): ImageData => {
+  const ctx = createContext(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+/** Decodes with the browser's image loader and encodes through a canvas. */
+export const browserCodec: ImageCodec = {
+  decode: async (dataUrl) => {
+    const img = await loadImage(dataUrl);
+    const { data } = readPixels(img, img.naturalWidth, img.naturalHeight);
+    return { width: img.naturalWidth, height: img.naturalHeight, data };
+  },
+  encodePng: async ({ width, height, data }) => {
+    const ctx = createContext(width, height);
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(data), width, height), 0, 0);
+    return ctx.canvas.toDataURL('image/png');
+  }
+};
+
+export interface PunchOptions {
+  settings: KeyingSettings;
+  mode: OutputMode;
+  /** Source photo; required for 'original' mode and sets the output size. */
+  sourceBase64?: string | null;
+  targetWidth?: number;
+  targetHeight?: number;
+}
+
+/** Keys the green-screened model output and returns a transparent PNG; see `keyRaster`. */
+export const processImageTransparency = async (
+  modelBase64: string,
+  options: PunchOptions
+): Promise<string> => {
+  const { sourceBase64, ...rest } = options;
+  const [model, source] = await Promise.all([
+    browserCodec.decode(modelBase64),
+    sourceBase64 ? browserCodec.decode(sourceBase64) : Promise.resolve(null)
+  ]);
+  return browserCodec.encodePng(keyRaster(model, { ...rest, source }));
+};
+
+/**
+ * Merges several punched results of the same source into one cut using
+ * their alpha channels. Colour comes from the source photo, except in
+ * 'regenerated' mode where the base pass's redraw is kept wherever it is
+ * still visible.
+ */
+export const composePasses = async (
+  results: { image: string; operation: MaskOperation }[],
+  sourceBase64: string,
+  mode: OutputMode
+): Promise<string> => {
+  const source = await loadImage(sourceBase64);
+  const w = source.naturalWidth;
+  const h = source.naturalHeight;
+  const layers = await Promise.all(results.map(async ({ image, operation }) => {
+    const pixels = readPixels(await loadImage(image), w, h).data;
+    const matte = new Uint8ClampedArray(w * h);
+    for (let p = 0, i = 3; p < matte.length; p++, i += 4) matte[p] = pixels[i];
+    return { pixels, matte, operation };
+  }));
+
+  const ctx = createContext(w, h);
+  ctx.drawImage(source, 0, 0, w, h);
+  const imageData = ctx.getImageData(0, 0, w, h);
+  const data = imageData.data;
+  if (mode === 'regenerated') {
+    const base = layers[0].pixels;
+    for (let i = 0; i < data.length; i += 4) {
+      if (base[i + 3] === 0) continue;
+      data[i] = base[i];
+      data[i + 1] = base[i + 1];
+      data[i + 2] = base[i + 2];
+    }
+  }
+  applyMatte(data, combineMattes(layers));
+  ctx.putImageData(imageData, 0, 0);
+  return ctx.canvas.toDataURL('image/png');
+};
+
+/** Renders the result's alpha as an opaque greyscale image: white is kept, black is punched. */
+export const createAlphaPreview = async (resultBase64: string): Promise<string> => {
+  const result = await loadImage(resultBase64);
+  const ctx = createContext(result.naturalWidth, result.naturalHeight);
+  ctx.drawImage(result, 0, 0);
+  const pixels = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+  const data = pixels.data;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i + 1] = data[i + 2] = data[i + 3];
+    data[i + 3] = 255;
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return ctx.canvas.toDataURL('image/png');
+};
+
+const OVERLAY_STRENGTH = 0.65;
+
+/** Tints the source red in proportion to how much of each pixel was punched. */
+export const createPunchOverlay = async (resultBase64: string, originalBase64: string): Promise<string> => {
+  const [result, original] = await Promise.all([loadImage(resultBase64), loadImage(originalBase64)]);
+  const w = result.naturalWidth;
+  const h = result.naturalHeight;
+  const alpha = readPixels(result, w, h).data;
+  const ctx = createContext(w, h);
+  ctx.drawImage(original, 0, 0, w, h);
+  const pixels = ctx.getImageData(0, 0, w, h);
+  const data = pixels.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const k = (1 - alpha[i + 3] / 255) * OVERLAY_STRENGTH;
+    data[i] += (255 - data[i]) * k;
+    data[i + 1] -= data[i + 1] * k;
+    data[i + 2] -= data[i + 2] * k;
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return ctx.canvas.toDataURL('image/png');
+};
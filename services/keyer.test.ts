@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { DEFAULT_KEYING, chokeMatte, combineMattes, computeMatte, despill, featherMatte } from './keyer';
+
+const pixels = (colors: [number, number, number][]) => Uint8ClampedArray.from(colors.flatMap(c => [...c, 255]));
+
+test('the matte ramps from the key colour to neutral grey', () => {
+  // Steps from pure green towards grey.
+  const steps = Array.from({ length: 11 }, (_, i): [number, number, number] => {
+    const t = i / 10;
+    return [Math.round(128 * t), Math.round(255 - 127 * t), Math.round(128 * t)];
+  });
+  const matte = computeMatte(pixels(steps), DEFAULT_KEYING);
+  assert.equal(matte[0], 0);
+  assert.equal(matte[10], 255);
+  for (let i = 1; i < matte.length; i++) assert.ok(matte[i] >= matte[i - 1], `step ${i} does not go back down`);
+  assert.ok([...matte].some(v => v > 0 && v < 255), 'softness leaves a graded edge');
+});
+
+test('tolerance widens what is fully removed and zero softness gives a hard edge', () => {
+  const nearKey = pixels([[40, 220, 40]]);
+  assert.equal(computeMatte(nearKey, { ...DEFAULT_KEYING, tolerance: 0, softness: 0 })[0], 255);
+  assert.equal(computeMatte(nearKey, { ...DEFAULT_KEYING, tolerance: 60 })[0], 0);
+});
+
+const square = (size: number, from: number, to: number) =>
+  Uint8ClampedArray.from({ length: size * size }, (_, p) => {
+    const x = p % size;
+    const y = Math.floor(p / size);
+    return x >= from && x < to && y >= from && y < to ? 255 : 0;
+  });
+
+const count = (matte: Uint8ClampedArray) => matte.reduce((n, v) => n + (v === 255 ? 1 : 0), 0);
+
+test('positive choke erodes and negative choke dilates the kept area', () => {
+  const matte = square(12, 3, 9); // 6x6 kept
+  assert.equal(count(chokeMatte(matte, 12, 12, 1)), 16); // 4x4
+  assert.equal(count(chokeMatte(matte, 12, 12, -1)), 64); // 8x8
+  assert.equal(chokeMatte(matte, 12, 12, 0), matte);
+});
+
+test('feather grades a hard edge but leaves flat areas alone', () => {
+  const size = 20;
+  const matte = Uint8ClampedArray.from({ length: size * size }, (_, p) => (p % size < 10 ? 0 : 255));
+  const feathered = featherMatte(matte, size, size, 4);
+  const row = feathered.subarray(5 * size, 6 * size);
+  assert.equal(row[0], 0);
+  assert.equal(row[size - 1], 255);
+  assert.ok(row[9] > 0 && row[10] < 255, 'the edge is softened on both sides');
+  for (let x = 1; x < size; x++) assert.ok(row[x] >= row[x - 1]);
+});
+
+test('despill pulls the key channel down to the others on visible pixels only', () => {
+  const data = Uint8ClampedArray.from([100, 200, 80, 255, 100, 200, 80, 0, 50, 40, 60, 255]);
+  despill(data, { ...DEFAULT_KEYING, despill: 100 });
+  assert.deepEqual([...data.subarray(0, 3)], [100, 100, 80]);
+  assert.deepEqual([...data.subarray(4, 7)], [100, 200, 80], 'transparent pixels are skipped');
+  assert.deepEqual([...data.subarray(8, 11)], [50, 40, 60], 'pixels without a cast are unchanged');
+
+  const half = Uint8ClampedArray.from([100, 200, 80, 255]);
+  despill(half, { ...DEFAULT_KEYING, despill: 50 });
+  assert.equal(half[1], 150);
+});
+
+test('combined passes union, intersect and subtract the punched area', () => {
+  // 0 = punched; a punches pixels 0 and 1, b punches 1 and 2, pixel 3 is punched by neither.
+  const a = Uint8ClampedArray.from([0, 0, 255, 255]);
+  const b = Uint8ClampedArray.from([255, 0, 0, 255]);
+  const combine = (operation: 'union' | 'intersect' | 'subtract') =>
+    [...combineMattes([{ matte: a, operation: 'union' }, { matte: b, operation }])];
+  assert.deepEqual(combine('union'), [0, 0, 0, 255]);
+  assert.deepEqual(combine('intersect'), [255, 0, 255, 255]);
+  assert.deepEqual(combine('subtract'), [0, 255, 255, 255]);
+
+  const soft = combineMattes([
+    { matte: Uint8ClampedArray.from([100]), operation: 'union' },
+    { matte: Uint8ClampedArray.from([60]), operation: 'subtract' }
+  ]);
+  assert.equal(soft[0], 195, 'subtract keeps at least the inverse of the pass');
+});
+
+test('a single pass comes back as a copy and its operation is ignored', () => {
+  const matte = Uint8ClampedArray.from([0, 128, 255]);
+  const out = combineMattes([{ matte, operation: 'subtract' }]);
+  assert.deepEqual([...out], [0, 128, 255]);
+  assert.notEqual(out, matte);
+});
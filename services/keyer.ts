@@ -0,0 +1,190 @@
+import { KeyingSettings, MaskOperation } from '../types';
+
+export const DEFAULT_KEYING: KeyingSettings = {
+  keyColor: '#00FF00',
+  tolerance: 30,
+  softness: 20,
+  choke: 0,
+  feather: 0,
+  despill: 60
+};
+
+type Rgb = [number, number, number];
+
+export const parseHexColor = (hex: string): Rgb => {
+  const clean = hex.replace('#', '');
+  const full = clean.length === 3 ? clean.split('').map(c => c + c).join('') : clean;
+  const value = parseInt(full, 16);
+  if (full.length !== 6 || Number.isNaN(value)) return [0, 255, 0];
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// BT.601 chroma; luma is ignored so shadows and highlights on the key colour still match.
+const chromaB = (r: number, g: number, b: number) => 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+const chromaR = (r: number, g: number, b: number) => 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+
+/**
+ * Builds a graded matte (0 = keyed out, 255 = opaque) from RGBA pixels.
+ * Tolerance and softness are percentages of the chroma distance between the
+ * key colour and neutral grey, so they behave the same for any key colour.
+ */
+export const computeMatte = (
+  data: Uint8ClampedArray,
+  settings: KeyingSettings
+): Uint8ClampedArray => {
+  const [kr, kg, kb] = parseHexColor(settings.keyColor);
+  const keyCb = chromaB(kr, kg, kb);
+  const keyCr = chromaR(kr, kg, kb);
+  const keyRange = Math.max(1, Math.hypot(keyCb - 128, keyCr - 128));
+
+  const inner = (settings.tolerance / 100) * keyRange;
+  const ramp = Math.max(1e-3, (settings.softness / 100) * keyRange);
+
+  const matte = new Uint8ClampedArray(data.length / 4);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const dist = Math.hypot(chromaB(r, g, b) - keyCb, chromaR(r, g, b) - keyCr);
+    const alpha = (dist - inner) / ramp;
+    matte[p] = alpha <= 0 ? 0 : alpha >= 1 ? 255 : Math.round(alpha * 255);
+  }
+  return matte;
+};
+
+// Sliding min/max along one axis; `stride` walks rows (1) or columns (width).
+const morphPass = (
+  src: Uint8ClampedArray,
+  dst: Uint8ClampedArray,
+  lines: number,
+  length: number,
+  lineStep: number,
+  stride: number,
+  radius: number,
+  pick: (a: number, b: number) => number
+) => {
+  for (let line = 0; line < lines; line++) {
+    const base = line * lineStep;
+    for (let i = 0; i < length; i++) {
+      const from = Math.max(0, i - radius);
+      const to = Math.min(length - 1, i + radius);
+      let v = src[base + from * stride];
+      for (let j = from + 1; j <= to; j++) v = pick(v, src[base + j * stride]);
+      dst[base + i * stride] = v;
+    }
+  }
+};
+
+/** Positive `amount` erodes the opaque region, negative dilates it. */
+export const chokeMatte = (
+  matte: Uint8ClampedArray,
+  width: number,
+  height: number,
+  amount: number
+): Uint8ClampedArray => {
+  const radius = Math.round(Math.abs(amount));
+  if (radius === 0) return matte;
+  const pick = amount > 0 ? Math.min : Math.max;
+  const tmp = new Uint8ClampedArray(matte.length);
+  const out = new Uint8ClampedArray(matte.length);
+  morphPass(matte, tmp, height, width, width, 1, radius, pick);
+  morphPass(tmp, out, width, height, 1, width, radius, pick);
+  return out;
+};
+
+const boxBlurPass = (
+  src: Uint8ClampedArray,
+  dst: Uint8ClampedArray,
+  lines: number,
+  length: number,
+  lineStep: number,
+  stride: number,
+  radius: number
+) => {
+  for (let line = 0; line < lines; line++) {
+    const base = line * lineStep;
+    let sum = 0;
+    for (let j = -radius; j <= radius; j++) {
+      sum += src[base + Math.min(length - 1, Math.max(0, j)) * stride];
+    }
+    const size = radius * 2 + 1;
+    for (let i = 0; i < length; i++) {
+      dst[base + i * stride] = Math.round(sum / size);
+      const out = Math.max(0, i - radius);
+      const inn = Math.min(length - 1, i + radius + 1);
+      sum += src[base + inn * stride] - src[base + out * stride];
+    }
+  }
+};
+
+/** Approximate gaussian feather: two separable box blurs of half the radius. */
+export const featherMatte = (
+  matte: Uint8ClampedArray,
+  width: number,
+  height: number,
+  radius: number
+): Uint8ClampedArray => {
+  if (radius <= 0) return matte;
+  const r = Math.max(1, Math.round(radius / 2));
+  let a = matte;
+  const tmp = new Uint8ClampedArray(matte.length);
+  for (let iter = 0; iter < 2; iter++) {
+    const out = new Uint8ClampedArray(matte.length);
+    boxBlurPass(a, tmp, height, width, width, 1, r);
+    boxBlurPass(tmp, out, width, height, 1, width, r);
+    a = out;
+  }
+  return a;
+};
+
+export const refineMatte = (
+  matte: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: Pick<KeyingSettings, 'choke' | 'feather'>
+): Uint8ClampedArray =>
+  featherMatte(chokeMatte(matte, width, height, settings.choke), width, height, settings.feather);
+
+/**
+ * Pulls the key colour's dominant channel down towards the other two on
+ * pixels that stay visible, removing the cast that bleeds onto edges.
+ */
+export const despill = (data: Uint8ClampedArray, settings: KeyingSettings): void => {
+  const strength = settings.despill / 100;
+  if (strength <= 0) return;
+  const key = parseHexColor(settings.keyColor);
+  const dominant = key.indexOf(Math.max(...key));
+  const others = [0, 1, 2].filter(c => c !== dominant);
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const limit = Math.max(data[i + others[0]], data[i + others[1]]);
+    const excess = data[i + dominant] - limit;
+    if (excess > 0) data[i + dominant] -= Math.round(excess * strength);
+  }
+};
+
+/** Multiplies the RGBA alpha channel by the matte in place. */
+export const applyMatte = (data: Uint8ClampedArray, matte: Uint8ClampedArray): void => {
+  for (let i = 3, p = 0; i < data.length; i += 4, p++) {
+    data[i] = Math.round((data[i] * matte[p]) / 255);
+  }
+};
+
+/**
+ * Combines per-pass mattes (255 = kept) into one. Operations act on the
+ * punched area: union punches where any pass does, intersect only where
+ * both do, subtract restores what a pass would punch. The first matte is
+ * the base and its operation is ignored.
+ */
+export const combineMattes = (layers: { matte: Uint8ClampedArray; operation: MaskOperation }[]): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(layers[0].matte);
+  for (const { matte, operation } of layers.slice(1)) {
+    for (let p = 0; p < out.length; p++) {
+      if (operation === 'union') out[p] = Math.min(out[p], matte[p]);
+      else if (operation === 'intersect') out[p] = Math.max(out[p], matte[p]);
+      else out[p] = Math.max(out[p], 255 - matte[p]);
+    }
+  }
+  return out;
+};
@@ -0,0 +1,308 @@
+// Source catalog: every key lives here first, and `vi` must cover the same set.
+// Placeholders are {name}; plural messages choose a form by {count}.
+
+export const en = {
+  'app.tagline': 'Precision Transparency & Window Masking',
+  'app.footer': 'Powered by Gemini 2.5 & 3 Models • Advanced Chroma Keying Engine • 2024',
+  'app.language': 'Language',
+
+  'common.apply': 'APPLY',
+  'common.cancel': 'Cancel',
+  'common.cancelUpper': 'CANCEL',
+  'common.clear': 'Clear',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'common.fit': 'Fit',
+  'common.redo': 'Redo',
+  'common.reset': 'Reset',
+  'common.save': 'Save',
+  'common.undo': 'Undo',
+  'common.chooseFiles': 'Choose Files',
+  'common.chooseFolder': 'Choose Folder',
+
+  'workspace.single': 'Single',
+  'workspace.batch': 'Batch',
+  'workspace.evaluate': 'Evaluate',
+
+  'model.standard': 'Standard',
+  'model.pro': 'Pro Quality',
+  'model.proShort': 'Pro',
+  'model.standardAbbr': 'Std',
+
+  'section.input': 'Input Image',
+  'section.sceneAnalysis': 'Scene Analysis',
+  'section.mode': 'Select Mode',
+  'section.outputPixels': 'Output Pixels',
+  'section.passes': 'Passes',
+  'section.keying': 'Keying',
+
+  'input.camera': 'Camera',
+  'input.cameraTitle': 'Capture a photo from a connected camera',
+  'input.pasteHint': 'or paste, or drop an image from another app or tab',
+  'input.dropHere': 'Drop image to punch',
+  'input.loadFailed': 'Could not load that image. If it came from a website, save it and upload the file instead.',
+
+  'camera.device': 'Camera',
+  'camera.deviceFallback': 'Camera {index}',
+  'camera.capture': 'CAPTURE',
+  'camera.starting': 'Starting camera...',
+  'camera.denied': "Camera access was blocked. Allow it in the browser's site settings and try again.",
+  'camera.notFound': 'No camera was found.',
+  'camera.busy': 'The camera is in use by another app.',
+  'camera.failed': 'Could not start the camera.',
+  'camera.unsupported': 'This browser cannot access cameras here. Camera capture needs a secure (https) page.',
+
+  'output.original': 'Original',
+  'output.originalHint': "Apply the model's matte to the untouched full-resolution photo",
+  'output.regenerated': 'Model Redraw',
+  'output.regeneratedHint': "Use the model's redrawn image, scaled to the source size",
+
+  'punch.action': 'PUNCH ALPHA',
+  'punch.restoredPass': 'Restored cut',
+
+  'error.title': 'Error Occurred',
+  'error.title.rateLimited': 'Rate Limited',
+  'error.title.blocked': 'Blocked by Safety Filter',
+  'error.title.noImage': 'No Image Returned',
+  'error.title.network': 'Network Error',
+  'error.title.invalidKey': 'Invalid API Key',
+  'error.title.timedOut': 'Timed Out',
+  'error.retry': 'Try Again',
+  'error.processFailed': 'Failed to process image.',
+  'error.historyExport': 'Failed to export history.',
+  'error.historyImport': 'Failed to import history.',
+  'error.historyUpdate': 'Failed to update history.',
+
+  'generationError.quota': 'The API quota or rate limit was hit. Wait a minute and try again, or switch to Standard quality.',
+  'generationError.safety': 'The model refused this image for safety reasons. Try a different photo or a less specific preset.',
+  'generationError.no_image': 'The model answered without an image. Try again, or rephrase the preset so it asks for an edited image.',
+  'generationError.network': 'Could not reach the image service. Check your connection and try again.',
+  'generationError.auth': 'The API key was rejected. Check that a valid key is configured, or switch to the offline backend in Settings.',
+  'generationError.timeout': 'The request took too long and was stopped. Try again, or raise the timeout in Settings.',
+  'generationError.unknown': 'Failed to process image.',
+
+  'progress.title': 'Processing Mask',
+  'progress.keyingTile': 'Keying tile {completed} of {total}...',
+  'progress.preparingMatte': 'Preparing matte...',
+  'progress.retrying': 'Retrying (attempt {attempt} of {total})...',
+  'progress.generating': '{provider} is analyzing pixels...',
+
+  'result.alt': 'Punched Result',
+  'result.cut': 'Cut',
+  'result.composite': 'Composite',
+  'result.compare': 'Compare with the original',
+  'result.compositeTitle': 'Place a new view behind the windows',
+  'result.touchUp': 'Touch up mask',
+  'result.zoom': 'View full size',
+  'result.waiting': 'Waiting for input...',
+  'result.fullViewAlt': 'Full Detail',
+
+  'provider.gemini.label': 'Gemini',
+  'provider.gemini.description': 'Google Gemini image editing (uses API quota).',
+  'provider.mock.label': 'Offline Mock',
+  'provider.mock.description': 'Deterministic local fixtures; no network or quota.',
+
+  'settings.title': 'Settings',
+  'settings.backend': 'Image Backend',
+  'settings.requests': 'Requests',
+  'settings.timeout': 'Timeout (seconds, 0 = none)',
+  'settings.retries': 'Retries on transient errors',
+
+  'scene.type.interior': 'Interior',
+  'scene.type.exterior': 'Exterior',
+  'scene.type.portrait': 'Portrait',
+  'scene.type.product': 'Product',
+  'scene.type.other': 'Other',
+  'scene.windows': { one: '{count} window', other: '{count} windows' },
+  'scene.subject': 'Subject',
+  'scene.imageAlt': 'Detected regions',
+  'scene.window': 'Window {id}',
+  'scene.windowSelected': 'Window {id}: selected',
+  'scene.limited': 'Punching windows {ids} only',
+  'scene.hint': 'Click boxes to limit the punch',
+
+  'preset.windowPunch.label': 'Punched Windows',
+  'preset.windowPunch.description': 'Make window views transparent.',
+  'preset.removeBg.label': 'Punched Background',
+  'preset.removeBg.description': 'Transparent background around subject.',
+  'preset.name': 'Name',
+  'preset.descriptionPlaceholder': 'Short description',
+  'preset.promptPlaceholder': 'Prompt, e.g. Replace the {{target}} with solid pure {{keyColorName}} {{keyColor}}.',
+  'preset.builtinVariables': 'Built-in: {names} follow the key colour.',
+  'preset.preview': 'Preview',
+  'preset.edit': 'Edit',
+  'preset.duplicate': 'Duplicate',
+  'preset.copyName': '{label} Copy',
+  'preset.new': '+ New Preset',
+  'preset.import': 'Import',
+  'preset.export': 'Export',
+  'preset.confirmDelete': 'Delete preset "{label}"?',
+  'preset.confirmReset': 'Replace all presets with the defaults?',
+  'preset.importFailed': 'Failed to import presets.',
+  'preset.fileNotJson': 'Preset file is not valid JSON',
+  'preset.fileInvalid': 'Not an AlphaPunch preset file',
+  'preset.fileTooNew': 'Preset file version {version} is newer than this app supports',
+  'preset.fileEmpty': 'Preset file contains no valid presets',
+
+  'maskOp.union': 'Union',
+  'maskOp.intersect': 'Intersect',
+  'maskOp.subtract': 'Subtract',
+
+  'passes.include': 'Include this pass',
+  'passes.base': 'Base',
+  'passes.pending': 'Pending',
+  'passes.moveUp': 'Move up',
+  'passes.moveDown': 'Move down',
+  'passes.rerun': 'Re-run this pass',
+  'passes.remove': 'Remove pass',
+  'passes.addAs': 'Add "{label}" as',
+
+  'keying.keyColor': 'Key Colour',
+  'keying.tolerance': 'Tolerance',
+  'keying.toleranceHint': 'How far from the key colour is still fully removed.',
+  'keying.softness': 'Softness',
+  'keying.softnessHint': 'Width of the graded edge between removed and kept.',
+  'keying.choke': 'Erode / Dilate',
+  'keying.chokeHint': 'Positive shrinks the kept area, negative grows it.',
+  'keying.feather': 'Feather',
+  'keying.featherHint': 'Blurs the matte edge.',
+  'keying.despill': 'Despill',
+  'keying.despillHint': 'Removes key-colour cast from kept pixels.',
+  'keying.despillDisabled': 'Only applies to Model Redraw output.',
+  'keying.updating': 'Updating preview...',
+  'keying.live': 'Live preview',
+
+  'history.title': 'History',
+  'history.export': 'Export history archive',
+  'history.import': 'Import history archive',
+  'history.search': 'Search prompts...',
+  'history.empty': 'No Cuts',
+  'history.noMatches': 'No Matches',
+  'history.pin': 'Pin',
+  'history.unpin': 'Unpin',
+  'history.view': 'View full size',
+  'history.thumbnailAlt': 'History',
+  'history.touchedUp': '{prompt} (touched up)',
+  'history.usage': '{used} MB /',
+  'history.megabytes': 'MB',
+  'history.quota': 'Storage quota; oldest unpinned cuts are removed beyond it',
+  'history.archiveNoManifest': 'Archive has no manifest.json',
+  'history.archiveInvalid': 'Not an AlphaPunch history archive',
+  'history.archiveTooNew': 'Archive version {version} is newer than this app supports',
+
+  'archive.noDecompression': 'This browser cannot read compressed archives',
+  'archive.invalid': 'Not a valid ZIP archive',
+  'archive.corrupt': 'Corrupt ZIP central directory',
+  'archive.unsupportedMethod': 'Unsupported ZIP compression method {method} for {name}',
+
+  'export.downloadPng': 'DOWNLOAD PNG',
+  'export.saving': 'SAVING...',
+  'export.more': 'More export formats',
+  'export.exporting': 'Exporting...',
+  'export.failed': 'Export failed.',
+  'export.encodeFailed': 'Failed to encode {format}',
+  'export.formatUnsupported': 'This browser cannot encode {format}',
+  'export.copy.label': 'Copy to Clipboard',
+  'export.copy.description': 'Transparent PNG to paste into other apps',
+  'export.copied': 'Copied',
+  'export.copyFailed': 'Could not copy to the clipboard.',
+  'export.png.label': 'PNG',
+  'export.png.description': 'Transparent cut-out',
+  'export.webp.label': 'WebP',
+  'export.webp.description': 'Smaller file with alpha',
+  'export.avif.label': 'AVIF',
+  'export.avif.description': 'Smallest file with alpha',
+  'export.mask.label': 'Mask PNG',
+  'export.mask.description': 'Greyscale matte, white = kept',
+  'export.psd.label': 'Layered PSD',
+  'export.psd.description': 'Original layer with the matte as layer mask',
+  'export.json.label': 'JSON Sidecar',
+  'export.json.description': 'Prompt, model and keying settings',
+  'export.svg.label': 'SVG Clip Path',
+  'export.svg.description': 'Punched regions as vector clip paths',
+  'export.geojson.label': 'GeoJSON Polygons',
+  'export.geojson.description': 'Punched regions with holes, pixel coordinates',
+  'export.coco.label': 'COCO Annotations',
+  'export.coco.description': 'Segmentation polygons with area and bbox',
+
+  'compare.result': 'Result',
+  'compare.alpha': 'Alpha',
+  'compare.overlay': 'Red Overlay',
+  'compare.solid': 'Solid',
+  'compare.punchedArea': 'Punched area',
+  'compare.swipe': 'Swipe',
+  'compare.sideBySide': 'Side by Side',
+  'compare.background': 'Background colour',
+  'compare.before': 'Before',
+  'compare.after': 'After',
+  'compare.buildFailed': 'Failed to build preview',
+  'compare.loadFailed': 'Failed to load the result',
+
+  'compositor.chooseBackground': 'Choose Background',
+  'compositor.changeBackground': 'Change Background',
+  'compositor.scale': 'Scale',
+  'compositor.blur': 'Blur',
+  'compositor.colorMatch': 'Colour match',
+  'compositor.rendering': 'RENDERING...',
+  'compositor.windows': 'Windows',
+  'compositor.resetCorners': 'Reset corners',
+  'compositor.hint': "Drag the corners onto the pane's edges; drag elsewhere to move the view.",
+  'compositor.placeholder': 'Choose the view to place behind the windows',
+  'compositor.loadCutFailed': 'Failed to load the cut',
+  'compositor.loadBackgroundFailed': 'Failed to load background',
+  'compositor.renderFailed': 'Failed to render composite',
+  'compositor.degenerate': 'Window corners are degenerate',
+
+  'maskEditor.brush': 'Brush',
+  'maskEditor.rectangle': 'Rectangle',
+  'maskEditor.polygon': 'Polygon',
+  'maskEditor.keep': 'Keep',
+  'maskEditor.erase': 'Erase',
+  'maskEditor.size': 'Size',
+  'maskEditor.hardness': 'Hardness',
+  'maskEditor.polygonHint': 'Click to add points, click the first point or press Enter to close.',
+  'maskEditor.ghost': 'Ghost',
+  'maskEditor.undoTitle': 'Undo (Ctrl+Z)',
+  'maskEditor.redoTitle': 'Redo (Ctrl+Shift+Z)',
+  'maskEditor.loadFailed': 'Failed to load mask for editing',
+
+  'status.queued': 'Queued',
+  'status.processing': 'Processing',
+  'status.done': 'Done',
+  'status.failed': 'Failed',
+
+  'batch.preset': 'Preset',
+  'batch.concurrency': 'Concurrency',
+  'batch.retries': 'Retries',
+  'batch.start': 'START BATCH',
+  'batch.retryFailed': 'RETRY FAILED',
+  'batch.downloadZip': 'DOWNLOAD ZIP',
+  'batch.drop': 'Drop images here',
+  'batch.summary': {
+    one: '{count} file • {done} done • {processing} processing • {queued} queued • {failed} failed',
+    other: '{count} files • {done} done • {processing} processing • {queued} queued • {failed} failed'
+  },
+  'batch.attempt': 'try {count}',
+
+  'eval.configurations': 'Configurations',
+  'eval.removeConfig': 'Remove configuration',
+  'eval.addConfig': '+ Add configuration',
+  'eval.run': 'RUN EVALUATION',
+  'eval.drop': 'Drop photos with their ground-truth masks',
+  'eval.pairHint': 'Pair by name (room.jpg + room_mask.png) or put masks in a masks/ folder. White = kept.',
+  'eval.unmatched': {
+    one: '{count} file has no partner and was skipped: {files}',
+    other: '{count} files have no partner and were skipped: {files}'
+  },
+  'eval.sample': 'Sample',
+  'eval.running': 'Running',
+  'eval.mean': 'Mean',
+  'eval.iou': 'IoU {value}',
+  'eval.boundaryF': 'BF {value}',
+  'eval.alphaError': 'err {value}',
+  'eval.falsePositive': 'False positive',
+  'eval.falseNegative': 'False negative',
+  'eval.diffAlt': 'Mask differences',
+  'eval.presetMissing': 'Preset no longer exists',
+  'eval.readFailed': 'Could not read this sample'
+} as const;
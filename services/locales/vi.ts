@@ -0,0 +1,301 @@
+import type { Catalog } from '../i18n';
+
+export const vi: Catalog = {
+  'app.tagline': 'Tách nền trong suốt & tạo mặt nạ cửa sổ chính xác',
+  'app.footer': 'Chạy trên các mô hình Gemini 2.5 & 3 • Bộ tách phông màu nâng cao • 2024',
+  'app.language': 'Ngôn ngữ',
+
+  'common.apply': 'ÁP DỤNG',
+  'common.cancel': 'Hủy',
+  'common.cancelUpper': 'HỦY',
+  'common.clear': 'Xóa',
+  'common.close': 'Đóng',
+  'common.delete': 'Xóa',
+  'common.fit': 'Vừa khung',
+  'common.redo': 'Làm lại',
+  'common.reset': 'Đặt lại',
+  'common.save': 'Lưu',
+  'common.undo': 'Hoàn tác',
+  'common.chooseFiles': 'Chọn tệp',
+  'common.chooseFolder': 'Chọn thư mục',
+
+  'workspace.single': 'Một ảnh',
+  'workspace.batch': 'Hàng loạt',
+  'workspace.evaluate': 'Đánh giá',
+
+  'model.standard': 'Tiêu chuẩn',
+  'model.pro': 'Chất lượng Pro',
+  'model.proShort': 'Pro',
+  'model.standardAbbr': 'TC',
+
+  'section.input': 'Ảnh đầu vào',
+  'section.sceneAnalysis': 'Phân tích cảnh',
+  'section.mode': 'Chọn chế độ',
+  'section.outputPixels': 'Điểm ảnh đầu ra',
+  'section.passes': 'Các lượt',
+  'section.keying': 'Tách màu',
+
+  'input.camera': 'Máy ảnh',
+  'input.cameraTitle': 'Chụp ảnh từ máy ảnh đã kết nối',
+  'input.pasteHint': 'hoặc dán, hoặc kéo ảnh từ ứng dụng hay thẻ khác vào',
+  'input.dropHere': 'Thả ảnh vào để tách nền',
+  'input.loadFailed': 'Không tải được ảnh này. Nếu ảnh lấy từ trang web, hãy lưu về máy rồi tải tệp lên.',
+
+  'camera.device': 'Máy ảnh',
+  'camera.deviceFallback': 'Máy ảnh {index}',
+  'camera.capture': 'CHỤP',
+  'camera.starting': 'Đang khởi động máy ảnh...',
+  'camera.denied': 'Quyền truy cập máy ảnh bị chặn. Hãy cho phép trong cài đặt trang của trình duyệt rồi thử lại.',
+  'camera.notFound': 'Không tìm thấy máy ảnh nào.',
+  'camera.busy': 'Máy ảnh đang được ứng dụng khác sử dụng.',
+  'camera.failed': 'Không khởi động được máy ảnh.',
+  'camera.unsupported': 'Trình duyệt không truy cập được máy ảnh ở đây. Chụp ảnh cần trang bảo mật (https).',
+
+  'output.original': 'Ảnh gốc',
+  'output.originalHint': 'Áp mặt nạ của mô hình lên ảnh gốc, giữ nguyên độ phân giải đầy đủ',
+  'output.regenerated': 'Ảnh mô hình vẽ lại',
+  'output.regeneratedHint': 'Dùng ảnh do mô hình vẽ lại, co giãn về kích thước ảnh gốc',
+
+  'punch.action': 'TÁCH NỀN',
+  'punch.restoredPass': 'Bản cắt đã khôi phục',
+
+  'error.title': 'Đã xảy ra lỗi',
+  'error.title.rateLimited': 'Vượt giới hạn tần suất',
+  'error.title.blocked': 'Bị bộ lọc an toàn chặn',
+  'error.title.noImage': 'Không nhận được ảnh',
+  'error.title.network': 'Lỗi mạng',
+  'error.title.invalidKey': 'Khóa API không hợp lệ',
+  'error.title.timedOut': 'Hết thời gian chờ',
+  'error.retry': 'Thử lại',
+  'error.processFailed': 'Không xử lý được ảnh.',
+  'error.historyExport': 'Không xuất được lịch sử.',
+  'error.historyImport': 'Không nhập được lịch sử.',
+  'error.historyUpdate': 'Không cập nhật được lịch sử.',
+
+  'generationError.quota': 'Đã chạm hạn mức hoặc giới hạn tần suất của API. Hãy đợi một phút rồi thử lại, hoặc chuyển sang chất lượng Tiêu chuẩn.',
+  'generationError.safety': 'Mô hình từ chối ảnh này vì lý do an toàn. Hãy thử ảnh khác hoặc một mẫu ít cụ thể hơn.',
+  'generationError.no_image': 'Mô hình trả lời nhưng không kèm ảnh. Hãy thử lại, hoặc viết lại mẫu để yêu cầu một ảnh đã chỉnh sửa.',
+  'generationError.network': 'Không kết nối được dịch vụ xử lý ảnh. Hãy kiểm tra kết nối rồi thử lại.',
+  'generationError.auth': 'Khóa API bị từ chối. Hãy kiểm tra đã cấu hình khóa hợp lệ, hoặc chuyển sang máy chủ ngoại tuyến trong Cài đặt.',
+  'generationError.timeout': 'Yêu cầu chạy quá lâu nên đã bị dừng. Hãy thử lại, hoặc tăng thời gian chờ trong Cài đặt.',
+  'generationError.unknown': 'Không xử lý được ảnh.',
+
+  'progress.title': 'Đang xử lý mặt nạ',
+  'progress.keyingTile': 'Đang tách màu ô {completed}/{total}...',
+  'progress.preparingMatte': 'Đang chuẩn bị mặt nạ...',
+  'progress.retrying': 'Đang thử lại (lần {attempt}/{total})...',
+  'progress.generating': '{provider} đang phân tích điểm ảnh...',
+
+  'result.alt': 'Kết quả đã tách nền',
+  'result.cut': 'Bản cắt',
+  'result.composite': 'Ảnh ghép',
+  'result.compare': 'So sánh với ảnh gốc',
+  'result.compositeTitle': 'Đặt khung cảnh mới phía sau cửa sổ',
+  'result.touchUp': 'Chỉnh sửa mặt nạ',
+  'result.zoom': 'Phóng to',
+  'result.waiting': 'Đang chờ ảnh đầu vào...',
+  'result.fullViewAlt': 'Chi tiết đầy đủ',
+
+  'provider.gemini.label': 'Gemini',
+  'provider.gemini.description': 'Chỉnh sửa ảnh bằng Google Gemini (dùng hạn mức API).',
+  'provider.mock.label': 'Giả lập ngoại tuyến',
+  'provider.mock.description': 'Mẫu cục bộ cố định; không cần mạng hay hạn mức.',
+
+  'settings.title': 'Cài đặt',
+  'settings.backend': 'Máy chủ xử lý ảnh',
+  'settings.requests': 'Yêu cầu',
+  'settings.timeout': 'Thời gian chờ (giây, 0 = không giới hạn)',
+  'settings.retries': 'Số lần thử lại khi lỗi tạm thời',
+
+  'scene.type.interior': 'Nội thất',
+  'scene.type.exterior': 'Ngoại thất',
+  'scene.type.portrait': 'Chân dung',
+  'scene.type.product': 'Sản phẩm',
+  'scene.type.other': 'Khác',
+  'scene.windows': { other: '{count} cửa sổ' },
+  'scene.subject': 'Chủ thể',
+  'scene.imageAlt': 'Vùng đã nhận diện',
+  'scene.window': 'Cửa sổ {id}',
+  'scene.windowSelected': 'Cửa sổ {id}: đã chọn',
+  'scene.limited': 'Chỉ tách cửa sổ {ids}',
+  'scene.hint': 'Nhấp vào khung để giới hạn vùng tách',
+
+  'preset.windowPunch.label': 'Tách cửa sổ',
+  'preset.windowPunch.description': 'Làm trong suốt khung cảnh ngoài cửa sổ.',
+  'preset.removeBg.label': 'Tách nền',
+  'preset.removeBg.description': 'Nền trong suốt quanh chủ thể.',
+  'preset.name': 'Tên',
+  'preset.descriptionPlaceholder': 'Mô tả ngắn',
+  'preset.promptPlaceholder': 'Câu lệnh, ví dụ: Replace the {{target}} with solid pure {{keyColorName}} {{keyColor}}.',
+  'preset.builtinVariables': 'Có sẵn: {names} theo màu tách.',
+  'preset.preview': 'Xem trước',
+  'preset.edit': 'Sửa',
+  'preset.duplicate': 'Nhân bản',
+  'preset.copyName': '{label} (bản sao)',
+  'preset.new': '+ Mẫu mới',
+  'preset.import': 'Nhập',
+  'preset.export': 'Xuất',
+  'preset.confirmDelete': 'Xóa mẫu "{label}"?',
+  'preset.confirmReset': 'Thay toàn bộ mẫu bằng mẫu mặc định?',
+  'preset.importFailed': 'Không nhập được mẫu.',
+  'preset.fileNotJson': 'Tệp mẫu không phải JSON hợp lệ',
+  'preset.fileInvalid': 'Đây không phải tệp mẫu AlphaPunch',
+  'preset.fileTooNew': 'Tệp mẫu phiên bản {version} mới hơn mức ứng dụng này hỗ trợ',
+  'preset.fileEmpty': 'Tệp mẫu không chứa mẫu hợp lệ nào',
+
+  'maskOp.union': 'Hợp',
+  'maskOp.intersect': 'Giao',
+  'maskOp.subtract': 'Trừ',
+
+  'passes.include': 'Dùng lượt này',
+  'passes.base': 'Gốc',
+  'passes.pending': 'Đang chờ',
+  'passes.moveUp': 'Chuyển lên',
+  'passes.moveDown': 'Chuyển xuống',
+  'passes.rerun': 'Chạy lại lượt này',
+  'passes.remove': 'Bỏ lượt',
+  'passes.addAs': 'Thêm "{label}" dạng',
+
+  'keying.keyColor': 'Màu tách',
+  'keying.tolerance': 'Dung sai',
+  'keying.toleranceHint': 'Khoảng cách tới màu tách mà vẫn bị xóa hoàn toàn.',
+  'keying.softness': 'Độ mềm',
+  'keying.softnessHint': 'Độ rộng vùng chuyển tiếp giữa phần bị xóa và phần giữ lại.',
+  'keying.choke': 'Co / Giãn',
+  'keying.chokeHint': 'Giá trị dương thu hẹp vùng giữ lại, giá trị âm nới rộng.',
+  'keying.feather': 'Làm mờ viền',
+  'keying.featherHint': 'Làm mờ mép mặt nạ.',
+  'keying.despill': 'Khử ám màu',
+  'keying.despillHint': 'Loại bỏ ám màu tách trên các điểm ảnh được giữ lại.',
+  'keying.despillDisabled': 'Chỉ áp dụng cho ảnh mô hình vẽ lại.',
+  'keying.updating': 'Đang cập nhật xem trước...',
+  'keying.live': 'Xem trước trực tiếp',
+
+  'history.title': 'Lịch sử',
+  'history.export': 'Xuất kho lưu trữ lịch sử',
+  'history.import': 'Nhập kho lưu trữ lịch sử',
+  'history.search': 'Tìm câu lệnh...',
+  'history.empty': 'Chưa có bản cắt',
+  'history.noMatches': 'Không có kết quả',
+  'history.pin': 'Ghim',
+  'history.unpin': 'Bỏ ghim',
+  'history.view': 'Phóng to',
+  'history.thumbnailAlt': 'Lịch sử',
+  'history.touchedUp': '{prompt} (đã chỉnh sửa)',
+  'history.usage': '{used} MB /',
+  'history.megabytes': 'MB',
+  'history.quota': 'Hạn mức lưu trữ; vượt quá thì các bản cắt cũ nhất chưa ghim sẽ bị xóa',
+  'history.archiveNoManifest': 'Kho lưu trữ không có manifest.json',
+  'history.archiveInvalid': 'Đây không phải kho lưu trữ lịch sử AlphaPunch',
+  'history.archiveTooNew': 'Kho lưu trữ phiên bản {version} mới hơn mức ứng dụng này hỗ trợ',
+
+  'archive.noDecompression': 'Trình duyệt này không đọc được kho lưu trữ nén',
+  'archive.invalid': 'Đây không phải tệp ZIP hợp lệ',
+  'archive.corrupt': 'Thư mục trung tâm của tệp ZIP bị hỏng',
+  'archive.unsupportedMethod': 'Không hỗ trợ kiểu nén ZIP {method} cho {name}',
+
+  'export.downloadPng': 'TẢI PNG VỀ MÁY',
+  'export.saving': 'ĐANG LƯU...',
+  'export.more': 'Thêm định dạng xuất',
+  'export.exporting': 'Đang xuất...',
+  'export.failed': 'Xuất thất bại.',
+  'export.encodeFailed': 'Không mã hóa được {format}',
+  'export.formatUnsupported': 'Trình duyệt này không mã hóa được {format}',
+  'export.copy.label': 'Sao chép vào bộ nhớ tạm',
+  'export.copy.description': 'PNG trong suốt để dán sang ứng dụng khác',
+  'export.copied': 'Đã sao chép',
+  'export.copyFailed': 'Không sao chép được vào bộ nhớ tạm.',
+  'export.png.label': 'PNG',
+  'export.png.description': 'Ảnh cắt nền trong suốt',
+  'export.webp.label': 'WebP',
+  'export.webp.description': 'Tệp nhỏ hơn, có kênh alpha',
+  'export.avif.label': 'AVIF',
+  'export.avif.description': 'Tệp nhỏ nhất, có kênh alpha',
+  'export.mask.label': 'Mặt nạ PNG',
+  'export.mask.description': 'Mặt nạ xám, trắng = giữ lại',
+  'export.psd.label': 'PSD nhiều lớp',
+  'export.psd.description': 'Lớp ảnh gốc kèm mặt nạ lớp',
+  'export.json.label': 'Tệp JSON đi kèm',
+  'export.json.description': 'Câu lệnh, mô hình và thông số tách màu',
+  'export.svg.label': 'Đường cắt SVG',
+  'export.svg.description': 'Vùng đã tách dưới dạng đường cắt vector',
+  'export.geojson.label': 'Đa giác GeoJSON',
+  'export.geojson.description': 'Vùng đã tách kèm lỗ, tọa độ điểm ảnh',
+  'export.coco.label': 'Chú thích COCO',
+  'export.coco.description': 'Đa giác phân vùng kèm diện tích và khung bao',
+
+  'compare.result': 'Kết quả',
+  'compare.alpha': 'Alpha',
+  'compare.overlay': 'Phủ đỏ',
+  'compare.solid': 'Nền màu',
+  'compare.punchedArea': 'Vùng đã tách',
+  'compare.swipe': 'Trượt',
+  'compare.sideBySide': 'Cạnh nhau',
+  'compare.background': 'Màu nền',
+  'compare.before': 'Trước',
+  'compare.after': 'Sau',
+  'compare.buildFailed': 'Không tạo được bản xem trước',
+  'compare.loadFailed': 'Không tải được kết quả',
+
+  'compositor.chooseBackground': 'Chọn nền',
+  'compositor.changeBackground': 'Đổi nền',
+  'compositor.scale': 'Tỉ lệ',
+  'compositor.blur': 'Làm mờ',
+  'compositor.colorMatch': 'Khớp màu',
+  'compositor.rendering': 'ĐANG KẾT XUẤT...',
+  'compositor.windows': 'Cửa sổ',
+  'compositor.resetCorners': 'Đặt lại các góc',
+  'compositor.hint': 'Kéo các góc vào mép khung kính; kéo chỗ khác để di chuyển khung cảnh.',
+  'compositor.placeholder': 'Chọn khung cảnh để đặt phía sau cửa sổ',
+  'compositor.loadCutFailed': 'Không tải được bản cắt',
+  'compositor.loadBackgroundFailed': 'Không tải được ảnh nền',
+  'compositor.renderFailed': 'Không kết xuất được ảnh ghép',
+  'compositor.degenerate': 'Các góc cửa sổ bị suy biến',
+
+  'maskEditor.brush': 'Cọ',
+  'maskEditor.rectangle': 'Hình chữ nhật',
+  'maskEditor.polygon': 'Đa giác',
+  'maskEditor.keep': 'Giữ',
+  'maskEditor.erase': 'Xóa',
+  'maskEditor.size': 'Cỡ',
+  'maskEditor.hardness': 'Độ cứng',
+  'maskEditor.polygonHint': 'Nhấp để thêm điểm, nhấp vào điểm đầu hoặc nhấn Enter để khép kín.',
+  'maskEditor.ghost': 'Bóng mờ',
+  'maskEditor.undoTitle': 'Hoàn tác (Ctrl+Z)',
+  'maskEditor.redoTitle': 'Làm lại (Ctrl+Shift+Z)',
+  'maskEditor.loadFailed': 'Không tải được mặt nạ để chỉnh sửa',
+
+  'status.queued': 'Đang chờ',
+  'status.processing': 'Đang xử lý',
+  'status.done': 'Xong',
+  'status.failed': 'Lỗi',
+
+  'batch.preset': 'Mẫu',
+  'batch.concurrency': 'Số luồng',
+  'batch.retries': 'Thử lại',
+  'batch.start': 'BẮT ĐẦU',
+  'batch.retryFailed': 'THỬ LẠI ẢNH LỖI',
+  'batch.downloadZip': 'TẢI ZIP',
+  'batch.drop': 'Thả ảnh vào đây',
+  'batch.summary': { other: '{count} tệp • {done} xong • {processing} đang xử lý • {queued} đang chờ • {failed} lỗi' },
+  'batch.attempt': 'lần {count}',
+
+  'eval.configurations': 'Cấu hình',
+  'eval.removeConfig': 'Bỏ cấu hình',
+  'eval.addConfig': '+ Thêm cấu hình',
+  'eval.run': 'CHẠY ĐÁNH GIÁ',
+  'eval.drop': 'Thả ảnh cùng mặt nạ chuẩn của chúng',
+  'eval.pairHint': 'Ghép theo tên (room.jpg + room_mask.png) hoặc để mặt nạ trong thư mục masks/. Trắng = giữ lại.',
+  'eval.unmatched': { other: '{count} tệp không có cặp nên bị bỏ qua: {files}' },
+  'eval.sample': 'Mẫu thử',
+  'eval.running': 'Đang chạy',
+  'eval.mean': 'Trung bình',
+  'eval.iou': 'IoU {value}',
+  'eval.boundaryF': 'BF {value}',
+  'eval.alphaError': 'sai số {value}',
+  'eval.falsePositive': 'Dương tính giả',
+  'eval.falseNegative': 'Âm tính giả',
+  'eval.diffAlt': 'Khác biệt mặt nạ',
+  'eval.presetMissing': 'Mẫu này không còn tồn tại',
+  'eval.readFailed': 'Không đọc được mẫu thử này'
+};
@@ -0,0 +1,20 @@
+import type { MessageKey, MessageParams } from './i18n';
+import { en } from './locales/en';
+
+/**
+ * A failure the user should read in their own language. `key` and `params`
+ * are translated where it is shown; `message` keeps the English for logs.
+ */
+export class LocalizedError extends Error {
+  readonly key: MessageKey;
+  readonly params?: MessageParams;
+
+  constructor(key: MessageKey, params?: MessageParams) {
+    const english = en[key];
+    const text = typeof english === 'string' ? english : english.other;
+    super(params ? text.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match)) : text);
+    this.name = 'LocalizedError';
+    this.key = key;
+    this.params = params;
+  }
+}
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { computeMaskMetrics, meanMetrics } from './maskMetrics';
+
+const SIZE = 10;
+
+// Punches the first `columns` columns of a SIZE x SIZE matte.
+const punchColumns = (columns: number) =>
+  Uint8ClampedArray.from({ length: SIZE * SIZE }, (_, p) => (p % SIZE < columns ? 0 : 255));
+
+test('identical mattes score perfectly, and so do two empty ones', () => {
+  const matte = punchColumns(4);
+  assert.deepEqual(computeMaskMetrics(matte, matte, SIZE, SIZE), { iou: 1, boundaryF: 1, alphaError: 0 });
+  const empty = punchColumns(0);
+  assert.deepEqual(computeMaskMetrics(empty, empty, SIZE, SIZE), { iou: 1, boundaryF: 1, alphaError: 0 });
+});
+
+test('IoU and alpha error grow with the mismatched area', () => {
+  const metrics = computeMaskMetrics(punchColumns(5), punchColumns(4), SIZE, SIZE);
+  assert.equal(metrics.iou, 40 / 50);
+  assert.equal(metrics.alphaError, 0.1);
+  assert.equal(computeMaskMetrics(punchColumns(4), punchColumns(0), SIZE, SIZE).iou, 0);
+});
+
+test('boundary F tolerates a one-pixel shift but not a two-pixel one', () => {
+  // The tolerance rounds up to one pixel at this size.
+  assert.equal(computeMaskMetrics(punchColumns(5), punchColumns(4), SIZE, SIZE).boundaryF, 1);
+  assert.equal(computeMaskMetrics(punchColumns(6), punchColumns(4), SIZE, SIZE).boundaryF, 0);
+});
+
+test('alpha error counts soft differences that IoU does not see', () => {
+  const truth = punchColumns(0);
+  const predicted = Uint8ClampedArray.from(truth, v => v - 51);
+  const metrics = computeMaskMetrics(predicted, truth, SIZE, SIZE);
+  assert.equal(metrics.iou, 1);
+  assert.equal(metrics.alphaError, 0.2);
+});
+
+test('mattes of different sizes are rejected', () => {
+  assert.throws(() => computeMaskMetrics(new Uint8ClampedArray(4), new Uint8ClampedArray(6), 2, 2), /sizes differ/);
+});
+
+test('meanMetrics averages each metric', () => {
+  assert.equal(meanMetrics([]), undefined);
+  assert.deepEqual(
+    meanMetrics([{ iou: 1, boundaryF: 0.5, alphaError: 0 }, { iou: 0.5, boundaryF: 1, alphaError: 0.25 }]),
+    { iou: 0.75, boundaryF: 0.75, alphaError: 0.125 }
+  );
+});
@@ -0,0 +1,145 @@
+import { MaskMetrics } from '../types';
+
+// Mattes here follow the keyer: one byte per pixel, 255 = kept, 0 = punched.
+
+const PUNCHED_BELOW = 128;
+
+/** Boundary tolerance as a share of the image diagonal, as in the DAVIS benchmark. */
+const BOUNDARY_TOLERANCE = 0.0075;
+
+const binarize = (matte: Uint8ClampedArray): Uint8Array => {
+  const out = new Uint8Array(matte.length);
+  for (let i = 0; i < matte.length; i++) out[i] = matte[i] < PUNCHED_BELOW ? 1 : 0;
+  return out;
+};
+
+/** Punched pixels with at least one 4-neighbour that is kept; the frame edge does not count. */
+const boundaryOf = (mask: Uint8Array, w: number, h: number): Uint8Array => {
+  const out = new Uint8Array(mask.length);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x;
+      if (!mask[i]) continue;
+      if ((x > 0 && !mask[i - 1]) || (x < w - 1 && !mask[i + 1]) || (y > 0 && !mask[i - w]) || (y < h - 1 && !mask[i + w])) {
+        out[i] = 1;
+      }
+    }
+  }
+  return out;
+};
+
+/** Square dilation by `r`, done as two 1-D sliding-window passes with running counts. */
+const dilate = (mask: Uint8Array, w: number, h: number, r: number): Uint8Array => {
+  const rows = new Uint8Array(mask.length);
+  for (let y = 0; y < h; y++) {
+    let count = 0;
+    for (let x = 0; x < Math.min(r, w); x++) count += mask[y * w + x];
+    for (let x = 0; x < w; x++) {
+      if (x + r < w) count += mask[y * w + x + r];
+      if (x - r - 1 >= 0) count -= mask[y * w + x - r - 1];
+      rows[y * w + x] = count > 0 ? 1 : 0;
+    }
+  }
+  const out = new Uint8Array(mask.length);
+  for (let x = 0; x < w; x++) {
+    let count = 0;
+    for (let y = 0; y < Math.min(r, h); y++) count += rows[y * w + x];
+    for (let y = 0; y < h; y++) {
+      if (y + r < h) count += rows[(y + r) * w + x];
+      if (y - r - 1 >= 0) count -= rows[(y - r - 1) * w + x];
+      out[y * w + x] = count > 0 ? 1 : 0;
+    }
+  }
+  return out;
+};
+
+/** Share of `edges` lying within the dilated `reference` edges; 1 when there are none to match. */
+const matchedShare = (edges: Uint8Array, reference: Uint8Array): number => {
+  let total = 0;
+  let hit = 0;
+  for (let i = 0; i < edges.length; i++) {
+    if (!edges[i]) continue;
+    total++;
+    hit += reference[i];
+  }
+  return total ? hit / total : 1;
+};
+
+/**
+ * Scores a predicted matte against ground truth of the same size. IoU and
+ * the boundary F-score are computed on the punched region (alpha below half);
+ * the alpha error uses the full 0-255 range. Two empty masks score 1.
+ */
+export const computeMaskMetrics = (
+  predicted: Uint8ClampedArray,
+  truth: Uint8ClampedArray,
+  width: number,
+  height: number
+): MaskMetrics => {
+  if (predicted.length !== truth.length) throw new Error('Matte sizes differ');
+  const pred = binarize(predicted);
+  const gt = binarize(truth);
+
+  let intersection = 0;
+  let union = 0;
+  let alphaSum = 0;
+  for (let i = 0; i < pred.length; i++) {
+    intersection += pred[i] & gt[i];
+    union += pred[i] | gt[i];
+    alphaSum += Math.abs(predicted[i] - truth[i]);
+  }
+
+  const r = Math.max(1, Math.round(BOUNDARY_TOLERANCE * Math.hypot(width, height)));
+  const predEdges = boundaryOf(pred, width, height);
+  const gtEdges = boundaryOf(gt, width, height);
+  const precision = matchedShare(predEdges, dilate(gtEdges, width, height, r));
+  const recall = matchedShare(gtEdges, dilate(predEdges, width, height, r));
+
+  return {
+    iou: union ? intersection / union : 1,
+    boundaryF: precision + recall ? (2 * precision * recall) / (precision + recall) : 0,
+    alphaError: pred.length ? alphaSum / pred.length / 255 : 0
+  };
+};
+
+export const DIFF_COLORS = {
+  falsePositive: [239, 68, 68], // Punched but should be kept
+  falseNegative: [59, 130, 246] // Kept but should be punched
+} as const;
+
+/**
+ * RGBA diff of two mattes over a dimmed greyscale copy of the source:
+ * false positives red, false negatives blue, correct punches faint green.
+ */
+export const renderMaskDiff = (
+  predicted: Uint8ClampedArray,
+  truth: Uint8ClampedArray,
+  source: Uint8ClampedArray
+): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(predicted.length * 4);
+  for (let p = 0, i = 0; p < predicted.length; p++, i += 4) {
+    const grey = (source[i] * 0.299 + source[i + 1] * 0.587 + source[i + 2] * 0.114) * 0.35;
+    const punched = predicted[p] < PUNCHED_BELOW;
+    const shouldPunch = truth[p] < PUNCHED_BELOW;
+    let color: readonly number[] = [grey, grey, grey];
+    if (punched && !shouldPunch) color = DIFF_COLORS.falsePositive;
+    else if (!punched && shouldPunch) color = DIFF_COLORS.falseNegative;
+    else if (punched) color = [grey, grey + 60, grey];
+    out[i] = color[0];
+    out[i + 1] = color[1];
+    out[i + 2] = color[2];
+    out[i + 3] = 255;
+  }
+  return out;
+};
+
+/** Plain average of each metric; undefined for an empty list. */
+export const meanMetrics = (list: MaskMetrics[]): MaskMetrics | undefined => {
+  if (!list.length) return undefined;
+  const sum = list.reduce((acc, m) => ({
+    iou: acc.iou + m.iou,
+    boundaryF: acc.boundaryF + m.boundaryF,
+    alphaError: acc.alphaError + m.alphaError
+  }), { iou: 0, boundaryF: 0, alphaError: 0 });
+  return { iou: sum.iou / list.length, boundaryF: sum.boundaryF / list.length, alphaError: sum.alphaError / list.length };
+};
@@ -0,0 +1,35 @@
+import { MaskOperation, MaskPass } from '../types';
+
+// Labels are in the catalogs under maskOp.*; the symbol joins prompts in pass descriptions.
+export const MASK_OPERATIONS: { id: MaskOperation; symbol: string }[] = [
+  { id: 'union', symbol: '+' },
+  { id: 'intersect', symbol: '∩' },
+  { id: 'subtract', symbol: '−' }
+];
+
+export const createMaskPass = (label: string, prompt: string, operation: MaskOperation = 'union'): MaskPass => ({
+  id: `pass-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  label,
+  prompt,
+  operation,
+  enabled: true
+});
+
+/** Passes that take part in the combined matte, in order. */
+export const activePasses = (passes: MaskPass[]): MaskPass[] =>
+  passes.filter(pass => pass.enabled && pass.modelOutput);
+
+/** One line per active pass, prefixed with its operation, for history and sidecars. */
+export const describePasses = (passes: MaskPass[]): string =>
+  activePasses(passes)
+    .map((pass, i) => (i === 0 ? pass.prompt : `${MASK_OPERATIONS.find(op => op.id === pass.operation)!.symbol} ${pass.prompt}`))
+    .join('\n');
+
+export const movePass = (passes: MaskPass[], id: string, delta: number): MaskPass[] => {
+  const from = passes.findIndex(pass => pass.id === id);
+  const to = from + delta;
+  if (from < 0 || to < 0 || to >= passes.length) return passes;
+  const next = [...passes];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+};
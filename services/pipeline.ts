@@ -0,0 +1,89 @@
+import { GenerationSettings, ImageCodec, ImageProvider, KeyingSettings, OutputMode, RasterImage } from '../types';
+import { DEFAULT_GENERATION_SETTINGS, GenerationError, generateWithRetry } from './generation';
+import { applyMatte, computeMatte, despill, refineMatte } from './keyer';
+import { fitWithin, resampleMatte, resizeRaster } from './raster';
+
+/*
+ * The punch pipeline without a DOM: generate with a provider, pull the matte
+ * from the keyed redraw, resize, refine and apply it. Pixels come and go
+ * through an ImageCodec, so the browser (canvas) and the CLI (pngjs/jpeg-js)
+ * run exactly the same steps.
+ */
+
+export interface KeyRasterOptions {
+  settings: KeyingSettings;
+  mode: OutputMode;
+  /** Source photo; required for 'original' mode and sets the output size. */
+  source?: RasterImage | null;
+  targetWidth?: number;
+  targetHeight?: number;
+}
+
+/**
+ * Keys a green-screened model output into a transparent image. The matte is
+ * pulled at the model's resolution, resampled to the target size, refined
+ * there, and applied either to the source photo ('original') or to the
+ * despilled model redraw ('regenerated').
+ */
+export const keyRaster = (model: RasterImage, options: KeyRasterOptions): RasterImage => {
+  const { settings, mode, source } = options;
+  if (mode === 'original' && !source) throw new Error('Source image required for original pixel output');
+
+  const w = source?.width ?? options.targetWidth ?? model.width;
+  const h = source?.height ?? options.targetHeight ?? model.height;
+
+  const matte = refineMatte(
+    resampleMatte(computeMatte(model.data, settings), model.width, model.height, w, h),
+    w,
+    h,
+    settings
+  );
+
+  const base = mode === 'original' ? source! : model;
+  const output = resizeRaster(base, w, h);
+  applyMatte(output.data, matte);
+  if (mode === 'regenerated') despill(output.data, settings);
+  return output;
+};
+
+export interface PunchPipelineOptions {
+  provider: ImageProvider;
+  codec: ImageCodec;
+  prompt: string;
+  usePro: boolean;
+  settings: KeyingSettings;
+  mode: OutputMode;
+  generation?: GenerationSettings;
+  maxSize?: number; // Long-edge cap for the output, in pixels
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, error: GenerationError) => void;
+}
+
+export interface PunchPipelineResult {
+  modelOutput: string; // Base64 keyed redraw from the provider
+  image: RasterImage; // Transparent result
+}
+
+/** Source data URL in, transparent pixels out; encode with the codec to get a PNG. */
+export const runPunchPipeline = async (
+  source: string,
+  mimeType: string,
+  options: PunchPipelineOptions
+): Promise<PunchPipelineResult> => {
+  const { provider, codec, settings, mode, signal = new AbortController().signal } = options;
+  const modelOutput = await generateWithRetry(provider, {
+    image: source,
+    mimeType,
+    prompt: options.prompt,
+    usePro: options.usePro
+  }, { settings: options.generation ?? DEFAULT_GENERATION_SETTINGS, signal, onRetry: options.onRetry });
+
+  const [model, original] = await Promise.all([codec.decode(modelOutput), codec.decode(source)]);
+  const size = fitWithin(original.width, original.height, options.maxSize);
+  const image = keyRaster(model, {
+    settings,
+    mode,
+    source: resizeRaster(original, size.width, size.height)
+  });
+  return { modelOutput, image };
+};
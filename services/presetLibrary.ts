@@ -0,0 +1,139 @@
+import { PresetPrompt } from '../types';
+import { parseHexColor } from './keyer';
+import { LocalizedError } from './localizedError';
+
+const STORAGE_KEY = 'alphapunch.presets';
+const EXPORT_FORMAT = 'alphapunch-presets';
+const EXPORT_VERSION = 1;
+
+export const DEFAULT_PRESETS: PresetPrompt[] = [
+  {
+    id: 'window-punch',
+    label: 'Punched Windows',
+    description: 'Make window views transparent.',
+    text: 'Edit this image: Locate all {{target}}. Replace ONLY the view seen through the windows with solid pure {{keyColorName}} {{keyColor}}. Do not change the window frames, curtains, or any interior items.',
+    variables: { target: 'window glass' }
+  },
+  {
+    id: 'remove-bg',
+    label: 'Punched Background',
+    description: 'Transparent background around subject.',
+    text: 'Edit this image: Identify the {{target}} in the foreground. Replace the entire background behind them with solid pure {{keyColorName}} {{keyColor}}. Keep the subject exactly as they are.',
+    variables: { target: 'main subject' }
+  }
+];
+
+/** Placeholders every preset can use; their values come from the keying settings. */
+export const BUILTIN_VARIABLES = ['keyColor', 'keyColorName'] as const;
+
+const NAMED_COLORS: [string, [number, number, number]][] = [
+  ['green', [0, 255, 0]],
+  ['blue', [0, 0, 255]],
+  ['red', [255, 0, 0]],
+  ['magenta', [255, 0, 255]],
+  ['cyan', [0, 255, 255]],
+  ['yellow', [255, 255, 0]],
+  ['black', [0, 0, 0]],
+  ['white', [255, 255, 255]]
+];
+
+export const colorName = (hex: string): string => {
+  const [r, g, b] = parseHexColor(hex);
+  let best = NAMED_COLORS[0];
+  let bestDist = Infinity;
+  for (const entry of NAMED_COLORS) {
+    const [nr, ng, nb] = entry[1];
+    const dist = (r - nr) ** 2 + (g - ng) ** 2 + (b - nb) ** 2;
+    if (dist < bestDist) {
+      best = entry;
+      bestDist = dist;
+    }
+  }
+  return best[0];
+};
+
+/** Fills {{placeholders}}; unknown names are left in place so mistakes stay visible. */
+export const renderPresetPrompt = (preset: PresetPrompt, keyColor: string): string => {
+  const values: Record<string, string> = {
+    ...preset.variables,
+    keyColor: keyColor.toUpperCase(),
+    keyColorName: colorName(keyColor)
+  };
+  return preset.text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
+};
+
+/** Placeholder names used in a template, excluding the built-in ones. */
+export const templateVariables = (text: string): string[] => {
+  const names = new Set<string>();
+  for (const match of text.matchAll(/\{\{\s*(\w+)\s*\}\}/g)) names.add(match[1]);
+  BUILTIN_VARIABLES.forEach(name => names.delete(name));
+  return [...names];
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// What stored or imported JSON must have to count as a preset; the rest is filled in by `normalize`.
+type PresetCandidate = Record<string, unknown> & Pick<PresetPrompt, 'id' | 'label' | 'text'>;
+
+const isPreset = (value: unknown): value is PresetCandidate =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.label === 'string' && typeof value.text === 'string';
+
+const normalizeVariables = (value: unknown): Record<string, string> | undefined => {
+  if (!isRecord(value)) return undefined;
+  const entries = Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string');
+  return Object.fromEntries(entries);
+};
+
+const normalize = (value: PresetCandidate): PresetPrompt => ({
+  id: value.id,
+  label: value.label,
+  description: typeof value.description === 'string' ? value.description : '',
+  text: value.text,
+  variables: normalizeVariables(value.variables)
+});
+
+export const loadPresets = (): PresetPrompt[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (Array.isArray(stored) && stored.length > 0 && (stored as unknown[]).every(isPreset)) return stored.map(normalize);
+  } catch (e) {
+    console.warn("Stored presets are unreadable, using defaults", e);
+  }
+  return DEFAULT_PRESETS;
+};
+
+export const savePresets = (presets: PresetPrompt[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+export const createPresetId = () => `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const exportPresets = (presets: PresetPrompt[]): Blob =>
+  new Blob([JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, presets }, null, 2)], { type: 'application/json' });
+
+/**
+ * Merges a shared library into `current`: presets with a matching id are
+ * replaced, new ones are appended. Accepts a bare array as well.
+ */
+export const importPresets = async (file: Blob, current: PresetPrompt[]): Promise<PresetPrompt[]> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new LocalizedError('preset.fileNotJson');
+  }
+  const library = isRecord(parsed) && parsed.format === EXPORT_FORMAT ? parsed : null;
+  const incoming: unknown = Array.isArray(parsed) ? parsed : library?.presets;
+  if (!Array.isArray(incoming)) throw new LocalizedError('preset.fileInvalid');
+  if (typeof library?.version === 'number' && library.version > EXPORT_VERSION) {
+    throw new LocalizedError('preset.fileTooNew', { version: library.version });
+  }
+
+  const valid = (incoming as unknown[]).filter(isPreset).map(normalize);
+  if (valid.length === 0) throw new LocalizedError('preset.fileEmpty');
+
+  const byId = new Map(current.map(p => [p.id, p]));
+  valid.forEach(p => byId.set(p.id, p));
+  return [...byId.values()];
+};
@@ -0,0 +1,74 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { ImageProvider } from '../../types';
+import { SCENE_TYPES, parseSceneAnalysis, sceneAnalysisPrompt } from '../sceneAnalysis';
+
+const ANALYSIS_MODEL = 'gemini-2.5-flash';
+const EDIT_MODEL = 'gemini-2.5-flash-image';
+const EDIT_MODEL_PRO = 'gemini-3-pro-image-preview';
+
+const ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    sceneType: { type: Type.STRING, enum: SCENE_TYPES },
+    summary: { type: Type.STRING },
+    windows: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } } },
+        required: ['box_2d']
+      }
+    },
+    hasSubject: { type: Type.BOOLEAN },
+    recommendedPresetId: { type: Type.STRING }
+  },
+  required: ['sceneType', 'summary', 'windows', 'hasSubject']
+};
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  description: 'Google Gemini image editing (uses API quota).',
+  // Called directly rather than through a helper so the signal reaches the SDK
+  // and Cancel or a timeout actually stops the request.
+  editImage: async ({ image, mimeType, prompt, usePro, signal }) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: usePro ? EDIT_MODEL_PRO : EDIT_MODEL,
+      contents: {
+        parts: [
+          { inlineData: { data: image.split(',')[1] ?? image, mimeType } },
+          { text: prompt }
+        ]
+      },
+      config: { abortSignal: signal }
+    });
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) throw new Error(`Request blocked: ${blockReason}`);
+    const candidate = response.candidates?.[0];
+    const output = candidate?.content?.parts?.find(part => part.inlineData?.data)?.inlineData;
+    if (!output?.data) {
+      const reason = candidate?.finishReason;
+      throw new Error(reason && reason !== 'STOP' ? `No image returned (${reason})` : 'The model did not return an image');
+    }
+    return `data:${output.mimeType ?? 'image/png'};base64,${output.data}`;
+  },
+  analyzeScene: async ({ image, mimeType, presets, signal }) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: ANALYSIS_MODEL,
+      contents: {
+        parts: [
+          { inlineData: { data: image.split(',')[1] ?? image, mimeType } },
+          { text: sceneAnalysisPrompt(presets) }
+        ]
+      },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: ANALYSIS_SCHEMA,
+        abortSignal: signal
+      }
+    });
+    return parseSceneAnalysis(JSON.parse(response.text ?? '{}'), presets.map(p => p.id));
+  }
+};
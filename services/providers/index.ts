@@ -0,0 +1,29 @@
+import { ImageProvider } from '../../types';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+const STORAGE_KEY = 'alphapunch.provider';
+export const DEFAULT_PROVIDER_ID = geminiProvider.id;
+
+const registry = new Map<string, ImageProvider>();
+
+/** Adds a backend to the settings list; a later registration with the same id replaces it. */
+export const registerProvider = (provider: ImageProvider): void => {
+  registry.set(provider.id, provider);
+};
+
+registerProvider(geminiProvider);
+registerProvider(mockProvider);
+
+export const listProviders = (): ImageProvider[] => [...registry.values()];
+
+export const getProvider = (id: string): ImageProvider => registry.get(id) ?? registry.get(DEFAULT_PROVIDER_ID)!;
+
+export const loadProviderId = (): string => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return stored && registry.has(stored) ? stored : DEFAULT_PROVIDER_ID;
+};
+
+export const saveProviderId = (id: string): void => {
+  localStorage.setItem(STORAGE_KEY, id);
+};
@@ -0,0 +1,122 @@
+import { ImageCodec, ImageProvider, NormalizedBox, RasterImage } from '../../types';
+import { browserCodec } from '../imageProcessing';
+import { parseHexColor } from '../keyer';
+import { fitWithin, resizeRaster } from '../raster';
+import { numberWindows, parseRegionClause } from '../sceneAnalysis';
+
+// Real models return around a megapixel; matching that exercises the matte resampling path.
+const MOCK_MAX_SIZE = 1024;
+const MOCK_LATENCY_MS = 400;
+const KEY_GREEN = '#00FF00';
+
+const hashString = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Small deterministic PRNG so the same image and prompt always give the same fixture.
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) >>> 0;
+  let t = seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Request cancelled', 'AbortError'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Request cancelled', 'AbortError'));
+    }, { once: true });
+  });
+
+const wantsBackground = (prompt: string) => /background|subject|foreground/i.test(prompt);
+
+/** The fake "windows" of an image: a row of panes that depends only on its size. */
+const paneLayout = (width: number, height: number): NormalizedBox[] => {
+  const random = seededRandom(hashString(`${width}x${height}`));
+  const panes = 2 + Math.floor(random() * 3);
+  const slot = 1 / panes;
+  const top = 0.12 + random() * 0.08;
+  const paneHeight = 0.35 + random() * 0.15;
+  return Array.from({ length: panes }, (_, i) => {
+    const inset = slot * (0.12 + random() * 0.08);
+    return { x: i * slot + inset, y: top, width: slot - inset * 2, height: paneHeight };
+  });
+};
+
+const fillPixel = (data: Uint8ClampedArray, p: number, [r, g, b]: [number, number, number]) => {
+  data[p * 4] = r;
+  data[p * 4 + 1] = g;
+  data[p * 4 + 2] = b;
+  data[p * 4 + 3] = 255;
+};
+
+/**
+ * Paints a green-keyed fixture over a downscaled copy of the input:
+ * the panes for window prompts (only those named in a region clause, if
+ * any), or everything outside a central subject ellipse for background prompts.
+ */
+const renderFixture = (source: RasterImage, prompt: string): RasterImage => {
+  const size = fitWithin(source.width, source.height, MOCK_MAX_SIZE);
+  const { width: w, height: h, data } = resizeRaster(source, size.width, size.height);
+  const green = parseHexColor(KEY_GREEN);
+
+  if (wantsBackground(prompt)) {
+    const random = seededRandom(hashString(`${prompt}|${source.width}x${source.height}`));
+    const rx = w * (0.22 + random() * 0.08);
+    const ry = h * (0.36 + random() * 0.06);
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const dx = (x + 0.5 - w / 2) / rx;
+        const dy = (y + 0.5 - h * 0.55) / ry;
+        if (dx * dx + dy * dy > 1) fillPixel(data, y * w + x, green);
+      }
+    }
+  } else {
+    const regions = parseRegionClause(prompt);
+    const panes = regions.length ? regions : paneLayout(source.width, source.height);
+    for (const pane of panes) {
+      const x1 = Math.min(w, Math.round((pane.x + pane.width) * w));
+      const y1 = Math.min(h, Math.round((pane.y + pane.height) * h));
+      for (let y = Math.max(0, Math.round(pane.y * h)); y < y1; y++) {
+        for (let x = Math.max(0, Math.round(pane.x * w)); x < x1; x++) fillPixel(data, y * w + x, green);
+      }
+    }
+  }
+
+  return { width: w, height: h, data };
+};
+
+/** The offline provider, decoding and encoding through `codec` so it also runs outside the browser. */
+export const createMockProvider = (codec: ImageCodec): ImageProvider => ({
+  id: 'mock',
+  label: 'Offline Mock',
+  description: 'Deterministic local fixtures; no network or quota.',
+  editImage: async ({ image, prompt, signal }) => {
+    await delay(MOCK_LATENCY_MS, signal);
+    return codec.encodePng(renderFixture(await codec.decode(image), prompt));
+  },
+  analyzeScene: async ({ image, presets, signal }) => {
+    await delay(MOCK_LATENCY_MS / 2, signal);
+    const { width, height } = await codec.decode(image);
+    const orientation = width >= height ? 'landscape' : 'portrait';
+    const windows = numberWindows(paneLayout(width, height));
+    return {
+      sceneType: 'interior',
+      summary: `Mock analysis: ${orientation} ${width}x${height} interior with ${windows.length} windows.`,
+      windows,
+      hasSubject: false,
+      recommendedPresetId: presets.find(p => /window/i.test(`${p.id} ${p.label}`))?.id ?? null
+    };
+  }
+});
+
+export const mockProvider = createMockProvider(browserCodec);
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { encodeChannel } from './psdWriter';
+
+const unpackBits = (encoded: Uint8Array, width: number, height: number): Uint8Array => {
+  const plane = new Uint8Array(width * height);
+  let pos = height * 2;
+  for (let y = 0; y < height; y++) {
+    const end = pos + ((encoded[y * 2] << 8) | encoded[y * 2 + 1]);
+    let x = y * width;
+    while (pos < end) {
+      const header = encoded[pos++];
+      if (header < 128) {
+        plane.set(encoded.subarray(pos, pos + header + 1), x);
+        pos += header + 1;
+        x += header + 1;
+      } else {
+        plane.fill(encoded[pos++], x, x + 257 - header);
+        x += 257 - header;
+      }
+    }
+    assert.equal(x, (y + 1) * width, `row ${y} decodes to the full width`);
+  }
+  return plane;
+};
+
+const roundTrip = (plane: Uint8Array, width: number, height: number) => {
+  const encoded = encodeChannel(plane, width, height);
+  assert.ok(encoded.length <= height * 2 + height * (width + Math.ceil(width / 128)));
+  assert.deepEqual(unpackBits(encoded, width, height), plane);
+};
+
+test('soft gradients with two-pixel steps round-trip', () => {
+  const width = 300;
+  const height = 4;
+  const plane = new Uint8Array(width * height);
+  for (let i = 0; i < plane.length; i++) plane[i] = Math.floor((i % width) * 0.7) + (i % 3 === 2 ? 1 : 0);
+  roundTrip(plane, width, height);
+});
+
+test('repeating "aab" rows round-trip', () => {
+  const width = 301;
+  const plane = Uint8Array.from({ length: width * 3 }, (_, i) => (i % 3 === 2 ? 9 : 4));
+  roundTrip(plane, width, 3);
+});
+
+test('noise, flat runs and long runs round-trip', () => {
+  const width = 517;
+  const height = 6;
+  let seed = 7;
+  const plane = Uint8Array.from({ length: width * height }, (_, i) => {
+    const row = Math.floor(i / width);
+    if (row === 1) return 200;
+    if (row === 2) return (i % width) < 260 ? 0 : 255;
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    return seed >>> 24;
+  });
+  roundTrip(plane, width, height);
+});
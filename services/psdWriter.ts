@@ -0,0 +1,192 @@
+/**
+ * Writes an 8-bit RGB Photoshop document with full-canvas layers and
+ * optional layer masks. Channel data is PackBits (RLE) compressed, which
+ * keeps masks and flat areas small.
+ */
+
+export interface PsdLayer {
+  name: string;
+  pixels: Uint8ClampedArray; // RGBA, width * height * 4
+  mask?: Uint8ClampedArray; // Greyscale, width * height; 255 reveals
+  hidden?: boolean;
+}
+
+export interface PsdDocument {
+  width: number;
+  height: number;
+  composite: Uint8ClampedArray; // RGBA; flattened preview for readers that ignore layers
+  layers: PsdLayer[]; // Bottom to top
+}
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  private current = new DataView(new ArrayBuffer(256));
+  private offset = 0;
+  length = 0;
+
+  private ensure(bytes: number) {
+    if (this.offset + bytes > this.current.byteLength) this.flush();
+  }
+
+  private flush() {
+    if (this.offset === 0) return;
+    this.chunks.push(new Uint8Array(this.current.buffer, 0, this.offset));
+    this.current = new DataView(new ArrayBuffer(256));
+    this.offset = 0;
+  }
+
+  u8(v: number) { this.ensure(1); this.current.setUint8(this.offset, v); this.offset += 1; this.length += 1; }
+  u16(v: number) { this.ensure(2); this.current.setUint16(this.offset, v); this.offset += 2; this.length += 2; }
+  i16(v: number) { this.ensure(2); this.current.setInt16(this.offset, v); this.offset += 2; this.length += 2; }
+  u32(v: number) { this.ensure(4); this.current.setUint32(this.offset, v); this.offset += 4; this.length += 4; }
+  ascii(s: string) { for (let i = 0; i < s.length; i++) this.u8(s.charCodeAt(i)); }
+
+  bytes(data: Uint8Array) {
+    this.flush();
+    this.chunks.push(data);
+    this.length += data.length;
+  }
+
+  parts(): Uint8Array[] {
+    this.flush();
+    return this.chunks;
+  }
+}
+
+// PackBits into `out` at `pos`; returns the new write position. Only runs of
+// three or more become repeat packets: a two-byte repeat saves nothing and,
+// between literals, costs an extra header, so those stay in the literal.
+const packBitsRow = (row: Uint8Array, out: Uint8Array, pos: number): number => {
+  const repeatsAt = (j: number) => j + 2 < row.length && row[j] === row[j + 1] && row[j] === row[j + 2];
+  let i = 0;
+  while (i < row.length) {
+    if (repeatsAt(i)) {
+      let run = 3;
+      while (i + run < row.length && run < 128 && row[i + run] === row[i]) run++;
+      out[pos++] = 257 - run;
+      out[pos++] = row[i];
+      i += run;
+      continue;
+    }
+    let literal = 1;
+    while (i + literal < row.length && literal < 128 && !repeatsAt(i + literal)) literal++;
+    out[pos++] = literal - 1;
+    out.set(row.subarray(i, i + literal), pos);
+    pos += literal;
+    i += literal;
+  }
+  return pos;
+};
+
+/** One channel as RLE: row byte counts followed by the packed rows (without the compression tag). */
+export const encodeChannel = (plane: Uint8Array, width: number, height: number): Uint8Array => {
+  // Worst case is all literals: one header byte per 128 bytes of input.
+  const out = new Uint8Array(height * 2 + height * (width + Math.ceil(width / 128)));
+  let pos = height * 2;
+  for (let y = 0; y < height; y++) {
+    const start = pos;
+    pos = packBitsRow(plane.subarray(y * width, (y + 1) * width), out, pos);
+    const size = pos - start;
+    out[y * 2] = size >> 8;
+    out[y * 2 + 1] = size & 255;
+  }
+  return out.slice(0, pos);
+};
+
+const extractPlane = (rgba: Uint8ClampedArray, channel: number): Uint8Array => {
+  const plane = new Uint8Array(rgba.length / 4);
+  for (let p = 0, i = channel; p < plane.length; p++, i += 4) plane[p] = rgba[i];
+  return plane;
+};
+
+const COMPRESSION_RLE = 1;
+
+export const writePsd = (doc: PsdDocument): Blob => {
+  const { width, height } = doc;
+  const w = new ByteWriter();
+
+  // File header
+  w.ascii('8BPS');
+  w.u16(1);
+  for (let i = 0; i < 6; i++) w.u8(0);
+  w.u16(3); // RGB composite
+  w.u32(height);
+  w.u32(width);
+  w.u16(8);
+  w.u16(3); // RGB colour mode
+
+  w.u32(0); // Colour mode data
+  w.u32(0); // Image resources
+
+  // Layer records are written to their own buffer so the section lengths are known.
+  const info = new ByteWriter();
+  info.i16(doc.layers.length);
+  const channelData: { id: number; data: Uint8Array }[][] = doc.layers.map(layer => {
+    const channels = [
+      { id: -1, data: encodeChannel(extractPlane(layer.pixels, 3), width, height) },
+      { id: 0, data: encodeChannel(extractPlane(layer.pixels, 0), width, height) },
+      { id: 1, data: encodeChannel(extractPlane(layer.pixels, 1), width, height) },
+      { id: 2, data: encodeChannel(extractPlane(layer.pixels, 2), width, height) }
+    ];
+    if (layer.mask) channels.push({ id: -2, data: encodeChannel(new Uint8Array(layer.mask.buffer, layer.mask.byteOffset, layer.mask.length), width, height) });
+    return channels;
+  });
+
+  doc.layers.forEach((layer, index) => {
+    info.u32(0);
+    info.u32(0);
+    info.u32(height);
+    info.u32(width);
+    const channels = channelData[index];
+    info.u16(channels.length);
+    channels.forEach(c => {
+      info.i16(c.id);
+      info.u32(c.data.length + 2);
+    });
+    info.ascii('8BIMnorm');
+    info.u8(255); // Opacity
+    info.u8(0); // Clipping
+    info.u8(layer.hidden ? 0x02 : 0x00);
+    info.u8(0);
+
+    const name = layer.name.slice(0, 255);
+    const nameLength = name.length + 1;
+    const namePadding = (4 - (nameLength % 4)) % 4;
+    const maskLength = layer.mask ? 20 : 0;
+    info.u32(4 + maskLength + 4 + nameLength + namePadding);
+
+    info.u32(maskLength);
+    if (layer.mask) {
+      info.u32(0);
+      info.u32(0);
+      info.u32(height);
+      info.u32(width);
+      info.u8(0); // Default colour outside the mask rectangle
+      info.u8(0); // Flags
+      info.u16(0); // Padding
+    }
+    info.u32(0); // Blending ranges
+    info.u8(name.length);
+    info.ascii(name);
+    for (let i = 0; i < namePadding; i++) info.u8(0);
+  });
+
+  channelData.forEach(channels => channels.forEach(c => {
+    info.u16(COMPRESSION_RLE);
+    info.bytes(c.data);
+  }));
+  if (info.length % 2) info.u8(0);
+
+  w.u32(info.length + 4 + 4); // Layer and mask section
+  w.u32(info.length);
+  info.parts().forEach(part => w.bytes(part));
+  w.u32(0); // Global layer mask info
+
+  // Flattened composite: all row counts for every channel, then all rows.
+  w.u16(COMPRESSION_RLE);
+  const planes = [0, 1, 2].map(c => encodeChannel(extractPlane(doc.composite, c), width, height));
+  planes.forEach(p => w.bytes(p.subarray(0, height * 2)));
+  planes.forEach(p => w.bytes(p.subarray(height * 2)));
+
+  return new Blob(w.parts(), { type: 'image/vnd.adobe.photoshop' });
+};
@@ -0,0 +1,120 @@
+import { PunchOptions, processImageTransparency, dataUrlToBlob, blobToDataUrl } from './imageProcessing';
+import { PunchWorkerResponse } from '../workers/protocol';
+
+export interface PunchJobHandlers {
+  onProgress?: (completed: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+interface PendingJob {
+  resolve: (blob: Blob) => void;
+  reject: (error: Error) => void;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+const pending = new Map<number, PendingJob>();
+
+const abortError = () => new DOMException('Punch cancelled', 'AbortError');
+
+export const isAbortError = (e: unknown): boolean =>
+  e instanceof DOMException && e.name === 'AbortError';
+
+const supportsWorker = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+  worker = new Worker(new URL('../workers/punch.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<PunchWorkerResponse>) => {
+    const message = event.data;
+    const job = pending.get(message.id);
+    if (!job) return;
+    switch (message.type) {
+      case 'progress':
+        job.onProgress?.(message.completed, message.total);
+        break;
+      case 'done':
+        pending.delete(message.id);
+        job.resolve(message.blob);
+        break;
+      case 'cancelled':
+        pending.delete(message.id);
+        job.reject(abortError());
+        break;
+      case 'error':
+        pending.delete(message.id);
+        job.reject(new Error(message.message));
+        break;
+    }
+  };
+  worker.onerror = (event) => {
+    // A crashed worker takes every job with it; start fresh next time.
+    pending.forEach(job => job.reject(new Error(event.message || 'Image worker crashed')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+/**
+ * Runs the keying pipeline in the tiled image worker, falling back to the
+ * main-thread implementation where OffscreenCanvas is not available.
+ * Rejects with an AbortError when `signal` fires.
+ */
+export const runPunchJob = async (
+  modelBase64: string,
+  options: PunchOptions,
+  handlers: PunchJobHandlers = {}
+): Promise<string> => {
+  const { signal, onProgress } = handlers;
+  if (signal?.aborted) throw abortError();
+
+  if (!supportsWorker()) {
+    const result = await processImageTransparency(modelBase64, options);
+    if (signal?.aborted) throw abortError();
+    return result;
+  }
+
+  const [model, source] = await Promise.all([
+    dataUrlToBlob(modelBase64),
+    options.sourceBase64 ? dataUrlToBlob(options.sourceBase64) : Promise.resolve(null)
+  ]);
+  if (signal?.aborted) throw abortError();
+
+  const id = nextJobId++;
+  const target = getWorker();
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    const onAbort = () => {
+      if (!pending.has(id)) return;
+      pending.delete(id);
+      target.postMessage({ type: 'cancel', id });
+      reject(abortError());
+    };
+    pending.set(id, {
+      resolve: (result) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+      onProgress
+    });
+    signal?.addEventListener('abort', onAbort, { once: true });
+    target.postMessage({
+      type: 'run',
+      id,
+      model,
+      source,
+      settings: options.settings,
+      mode: options.mode,
+      targetWidth: options.targetWidth,
+      targetHeight: options.targetHeight
+    });
+  });
+
+  return blobToDataUrl(blob);
+};
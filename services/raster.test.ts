@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { resampleMatte, resizeRaster } from './raster';
+
+const noise = (length: number, seed: number) =>
+  Uint8ClampedArray.from({ length }, () => {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    return seed >>> 24;
+  });
+
+const crop = (data: Uint8ClampedArray, width: number, channels: number, x: number, y: number, w: number, h: number) => {
+  const out = new Uint8ClampedArray(w * h * channels);
+  for (let row = 0; row < h; row++) {
+    const from = ((y + row) * width + x) * channels;
+    out.set(data.subarray(from, from + w * channels), row * w * channels);
+  }
+  return out;
+};
+
+// The punch worker resamples tile by tile; its tiles must match the CLI's whole-image pass.
+const sizes: [number, number, number, number][] = [
+  [61, 47, 250, 190], // Enlarging
+  [250, 190, 61, 47], // Shrinking
+  [80, 60, 80, 60] // Same size
+];
+
+for (const [width, height, targetWidth, targetHeight] of sizes) {
+  test(`matte regions match a full resample (${width}x${height} to ${targetWidth}x${targetHeight})`, () => {
+    const matte = noise(width * height, 3);
+    const full = resampleMatte(matte, width, height, targetWidth, targetHeight);
+    for (const [x, y, w, h] of [[0, 0, 17, 13], [9, 21, 30, 11], [targetWidth - 7, targetHeight - 5, 7, 5]]) {
+      const region = resampleMatte(matte, width, height, targetWidth, targetHeight, { x, y, width: w, height: h });
+      assert.deepEqual(region, crop(full, targetWidth, 1, x, y, w, h));
+    }
+  });
+
+  test(`raster regions match a full resize (${width}x${height} to ${targetWidth}x${targetHeight})`, () => {
+    const image = { width, height, data: noise(width * height * 4, 11) };
+    const full = resizeRaster(image, targetWidth, targetHeight);
+    const region = resizeRaster(image, targetWidth, targetHeight, { x: 5, y: 4, width: 23, height: 19 });
+    assert.equal(region.width, 23);
+    assert.equal(region.height, 19);
+    assert.deepEqual(region.data, crop(full.data, targetWidth, 4, 5, 4, 23, 19));
+  });
+}
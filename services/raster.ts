@@ -0,0 +1,181 @@
+import { RasterImage } from '../types';
+
+// Plain-array stand-ins for the canvas operations the pipeline needs, so it runs in Node too.
+
+interface Tap {
+  start: number;
+  weights: Float32Array;
+}
+
+/**
+ * Triangle-filter taps for one axis. The filter widens when shrinking so
+ * every source pixel contributes, which is what stops downscaled mattes
+ * from aliasing; when enlarging it is plain linear interpolation.
+ */
+const axisTaps = (src: number, dst: number): Tap[] => {
+  const scale = src / dst;
+  const radius = Math.max(1, scale);
+  return Array.from({ length: dst }, (_, i) => {
+    const center = (i + 0.5) * scale - 0.5;
+    const start = Math.max(0, Math.ceil(center - radius));
+    const end = Math.min(src - 1, Math.floor(center + radius));
+    const weights = new Float32Array(Math.max(1, end - start + 1));
+    let sum = 0;
+    for (let s = start; s <= end; s++) {
+      const w = Math.max(0, 1 - Math.abs(s - center) / radius);
+      weights[s - start] = w;
+      sum += w;
+    }
+    if (sum > 0) {
+      for (let k = 0; k < weights.length; k++) weights[k] /= sum;
+    } else {
+      weights[0] = 1; // Only reachable at the very edge of tiny images
+    }
+    return { start: Math.min(start, src - 1), weights };
+  });
+};
+
+/** A rectangle of the target image, in target pixels. */
+export interface RasterRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Resamples interleaved channels, horizontally then vertically. Only `region`
+ * of the target is produced, with the same taps as the full image, so tiles
+ * come out bit-identical to a crop of a whole-image resample.
+ */
+const resampleChannels = (
+  data: ArrayLike<number>,
+  width: number,
+  height: number,
+  channels: number,
+  targetWidth: number,
+  targetHeight: number,
+  region: RasterRegion
+): Float32Array => {
+  const xTaps = axisTaps(width, targetWidth).slice(region.x, region.x + region.width);
+  const yTaps = axisTaps(height, targetHeight).slice(region.y, region.y + region.height);
+  const rw = region.width;
+
+  // Only the source rows the vertical taps reach.
+  const firstRow = yTaps[0].start;
+  const lastRow = yTaps.reduce((last, tap) => Math.max(last, tap.start + tap.weights.length - 1), firstRow);
+  const rows = new Float32Array(rw * (lastRow - firstRow + 1) * channels);
+  for (let y = firstRow; y <= lastRow; y++) {
+    for (let x = 0; x < rw; x++) {
+      const { start, weights } = xTaps[x];
+      for (let c = 0; c < channels; c++) {
+        let v = 0;
+        for (let k = 0; k < weights.length; k++) v += data[(y * width + start + k) * channels + c] * weights[k];
+        rows[((y - firstRow) * rw + x) * channels + c] = v;
+      }
+    }
+  }
+
+  const out = new Float32Array(rw * region.height * channels);
+  for (let y = 0; y < region.height; y++) {
+    const { start, weights } = yTaps[y];
+    for (let x = 0; x < rw; x++) {
+      for (let c = 0; c < channels; c++) {
+        let v = 0;
+        for (let k = 0; k < weights.length; k++) v += rows[((start - firstRow + k) * rw + x) * channels + c] * weights[k];
+        out[(y * rw + x) * channels + c] = v;
+      }
+    }
+  }
+  return out;
+};
+
+const fullRegion = (width: number, height: number): RasterRegion => ({ x: 0, y: 0, width, height });
+
+const cropChannels = (data: Uint8ClampedArray, width: number, channels: number, region: RasterRegion): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(region.width * region.height * channels);
+  for (let y = 0; y < region.height; y++) {
+    const from = ((region.y + y) * width + region.x) * channels;
+    out.set(data.subarray(from, from + region.width * channels), y * region.width * channels);
+  }
+  return out;
+};
+
+/**
+ * Resamples a single-channel matte to the target size, or just `region` of
+ * it; returns the input untouched when the size already matches and no
+ * region is asked for.
+ */
+export const resampleMatte = (
+  matte: Uint8ClampedArray,
+  width: number,
+  height: number,
+  targetWidth: number,
+  targetHeight: number,
+  region?: RasterRegion
+): Uint8ClampedArray => {
+  if (width === targetWidth && height === targetHeight) return region ? cropChannels(matte, width, 1, region) : matte;
+  const area = region ?? fullRegion(targetWidth, targetHeight);
+  return Uint8ClampedArray.from(resampleChannels(matte, width, height, 1, targetWidth, targetHeight, area), Math.round);
+};
+
+/**
+ * Prepares RGBA pixels for resizing to one target size with premultiplied
+ * alpha, so transparent pixels do not bleed colour. The premultiplied copy is
+ * made once; each call of the returned function produces the whole resized
+ * image or just `region` of it, which is how the punch worker fills its tiles.
+ */
+export const prepareResize = (
+  image: RasterImage,
+  targetWidth: number,
+  targetHeight: number
+): ((region?: RasterRegion) => RasterImage) => {
+  const { width, height, data } = image;
+  if (width === targetWidth && height === targetHeight) {
+    return (region = fullRegion(targetWidth, targetHeight)) =>
+      ({ width: region.width, height: region.height, data: cropChannels(data, width, 4, region) });
+  }
+
+  const premultiplied = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3] / 255;
+    premultiplied[i] = data[i] * a;
+    premultiplied[i + 1] = data[i + 1] * a;
+    premultiplied[i + 2] = data[i + 2] * a;
+    premultiplied[i + 3] = data[i + 3];
+  }
+  return (region = fullRegion(targetWidth, targetHeight)) => {
+    const scaled = resampleChannels(premultiplied, width, height, 4, targetWidth, targetHeight, region);
+    const out = new Uint8ClampedArray(scaled.length);
+    for (let i = 0; i < scaled.length; i += 4) {
+      const a = scaled[i + 3];
+      const unpremultiply = a > 0 ? 255 / a : 0;
+      out[i] = Math.round(scaled[i] * unpremultiply);
+      out[i + 1] = Math.round(scaled[i + 1] * unpremultiply);
+      out[i + 2] = Math.round(scaled[i + 2] * unpremultiply);
+      out[i + 3] = Math.round(a);
+    }
+    return { width: region.width, height: region.height, data: out };
+  };
+};
+
+/** Resizes RGBA pixels with premultiplied alpha; with `region`, only that part of the result is returned. */
+export const resizeRaster = (
+  image: RasterImage,
+  targetWidth: number,
+  targetHeight: number,
+  region?: RasterRegion
+): RasterImage => prepareResize(image, targetWidth, targetHeight)(region);
+
+/** The size that fits `maxSize` on the long edge; images already small enough keep theirs. */
+export const fitWithin = (width: number, height: number, maxSize?: number): { width: number; height: number } => {
+  if (!maxSize || Math.max(width, height) <= maxSize) return { width, height };
+  const scale = maxSize / Math.max(width, height);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+export const alphaChannel = (image: RasterImage): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(image.width * image.height);
+  for (let p = 0, i = 3; p < out.length; p++, i += 4) out[p] = image.data[i];
+  return out;
+};
@@ -0,0 +1,99 @@
+import { AnalyzeImageRequest, DetectedWindow, NormalizedBox, PresetPrompt, SceneAnalysis, SceneType } from '../types';
+
+export const SCENE_TYPES: SceneType[] = ['interior', 'exterior', 'portrait', 'product', 'other'];
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/**
+ * Instructions for a model returning `RawSceneAnalysis` JSON. Boxes use the
+ * Gemini convention: [ymin, xmin, ymax, xmax] scaled to 0-1000.
+ */
+export const sceneAnalysisPrompt = (presets: AnalyzeImageRequest['presets']): string => [
+  'Analyze this photo for a tool that makes parts of it transparent.',
+  `Classify the scene as one of: ${SCENE_TYPES.join(', ')}.`,
+  'List every window or glazed opening through which an outside view is visible, each as box_2d [ymin, xmin, ymax, xmax] normalized to 0-1000.',
+  'Say whether there is one clear main subject (person, pet or product) in the foreground.',
+  'Write a one-sentence summary.',
+  'Recommend the id of the best preset from this list:',
+  ...presets.map(p => `- ${p.id}: ${p.label} (${p.description})`)
+].join('\n');
+
+interface RawSceneAnalysis {
+  sceneType?: unknown;
+  summary?: unknown;
+  windows?: { box_2d?: unknown }[];
+  hasSubject?: unknown;
+  recommendedPresetId?: unknown;
+}
+
+const toBox = (raw: unknown): NormalizedBox | null => {
+  if (!Array.isArray(raw) || raw.length !== 4 || !raw.every(v => typeof v === 'number' && isFinite(v))) return null;
+  const [ymin, xmin, ymax, xmax] = raw.map(v => clamp01(v / 1000));
+  if (xmax <= xmin || ymax <= ymin) return null;
+  return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+};
+
+// Top-to-bottom rows, then left to right, so numbering matches how people read the photo.
+const byReadingOrder = (a: NormalizedBox, b: NormalizedBox) =>
+  Math.abs(a.y - b.y) > Math.min(a.height, b.height) / 2 ? a.y - b.y : a.x - b.x;
+
+export const numberWindows = (boxes: NormalizedBox[]): DetectedWindow[] =>
+  [...boxes].sort(byReadingOrder).map((box, i) => ({ id: i + 1, box }));
+
+/** Validates model JSON, dropping malformed boxes and unknown preset ids. */
+export const parseSceneAnalysis = (raw: unknown, presetIds: string[]): SceneAnalysis => {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as RawSceneAnalysis;
+  const boxes = Array.isArray(data.windows)
+    ? data.windows.map(w => toBox(w?.box_2d)).filter((b): b is NormalizedBox => b !== null)
+    : [];
+  const sceneType = SCENE_TYPES.includes(data.sceneType as SceneType) ? (data.sceneType as SceneType) : 'other';
+  const preset = typeof data.recommendedPresetId === 'string' && presetIds.includes(data.recommendedPresetId)
+    ? data.recommendedPresetId
+    : null;
+  return {
+    sceneType,
+    summary: typeof data.summary === 'string' ? data.summary : '',
+    windows: numberWindows(boxes),
+    hasSubject: data.hasSubject === true,
+    recommendedPresetId: preset
+  };
+};
+
+const mentions = (preset: PresetPrompt, pattern: RegExp) =>
+  pattern.test(`${preset.label} ${preset.description} ${preset.text}`);
+
+/**
+ * The model's pick when it names a known preset; otherwise the first preset
+ * about windows when any were found, or about backgrounds when there is a subject.
+ */
+export const recommendPreset = (analysis: SceneAnalysis, presets: PresetPrompt[]): string | null => {
+  if (analysis.recommendedPresetId && presets.some(p => p.id === analysis.recommendedPresetId)) {
+    return analysis.recommendedPresetId;
+  }
+  if (analysis.windows.length > 0) return presets.find(p => mentions(p, /window/i))?.id ?? null;
+  if (analysis.hasSubject) return presets.find(p => mentions(p, /background|subject/i))?.id ?? null;
+  return null;
+};
+
+const pct = (v: number) => Math.round(v * 100);
+
+/**
+ * Restricts a window prompt to the chosen boxes. The wording is parsed back
+ * by `parseRegionClause`, so keep the two in step.
+ */
+export const buildRegionClause = (windows: DetectedWindow[]): string => {
+  const regions = windows
+    .map(w => `window ${w.id} x ${pct(w.box.x)}-${pct(w.box.x + w.box.width)}%, y ${pct(w.box.y)}-${pct(w.box.y + w.box.height)}%`)
+    .join('; ');
+  return ` Only edit the windows inside these regions (x and y in percent of image width and height): ${regions}. Leave every other window exactly as it is.`;
+};
+
+const REGION_PATTERN = /x (\d+)-(\d+)%, y (\d+)-(\d+)%/g;
+
+export const parseRegionClause = (prompt: string): NormalizedBox[] =>
+  [...prompt.matchAll(REGION_PATTERN)].map(([, x0, x1, y0, y1]) => ({
+    x: Number(x0) / 100,
+    y: Number(y0) / 100,
+    width: (Number(x1) - Number(x0)) / 100,
+    height: (Number(y1) - Number(y0)) / 100
+  }));
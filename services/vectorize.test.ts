@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { vectorizeAlpha } from './vectorize';
+
+// '#' is punched (alpha 0), anything else is kept.
+const fromRows = (rows: string[]) => {
+  const width = rows[0].length;
+  const height = rows.length;
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  rows.forEach((row, y) => [...row].forEach((c, x) => (rgba[(y * width + x) * 4 + 3] = c === '#' ? 0 : 255)));
+  return { rgba, width, height };
+};
+
+const vectorize = (rows: string[]) => {
+  const { rgba, width, height } = fromRows(rows);
+  return vectorizeAlpha(rgba, width, height, { minArea: 1, tolerance: 0 });
+};
+
+test('a fully punched frame is one rectangle', () => {
+  const regions = vectorize(['####', '####', '####']);
+  assert.equal(regions.length, 1);
+  assert.deepEqual(regions[0].outer, [[0, 0], [4, 0], [4, 3], [0, 3]]);
+  assert.deepEqual(regions[0].holes, []);
+  assert.equal(regions[0].area, 12);
+  assert.deepEqual(regions[0].bbox, [0, 0, 4, 3]);
+});
+
+test('kept pixels inside a punched area become a hole', () => {
+  const regions = vectorize([
+    '......',
+    '.####.',
+    '.#..#.',
+    '.#..#.',
+    '.####.',
+    '......'
+  ]);
+  assert.equal(regions.length, 1);
+  assert.equal(regions[0].holes.length, 1);
+  assert.deepEqual([...regions[0].holes[0]].sort(), [[2, 2], [2, 4], [4, 2], [4, 4]]);
+  assert.equal(regions[0].area, 12);
+  assert.deepEqual(regions[0].bbox, [1, 1, 4, 4]);
+});
+
+test('an island inside a hole is its own region and the hole stays with its outline', () => {
+  const regions = vectorize([
+    '########',
+    '#......#',
+    '#......#',
+    '#..##..#',
+    '#..##..#',
+    '#......#',
+    '#......#',
+    '########'
+  ]);
+  assert.deepEqual(regions.map(r => r.area), [28, 4]);
+  assert.equal(regions[0].holes.length, 1);
+  assert.deepEqual(regions[1].holes, []);
+  assert.deepEqual(regions[1].bbox, [3, 3, 2, 2]);
+});
+
+test('separate punched areas come back largest first', () => {
+  const regions = vectorize(['##...', '##...', '.....', '..###']);
+  assert.deepEqual(regions.map(r => r.area), [4, 3]);
+  assert.deepEqual(regions.map(r => r.bbox), [[0, 0, 2, 2], [2, 3, 3, 1]]);
+});
+
+test('pixels touching only at a corner are separate regions', () => {
+  const regions = vectorize(['#..', '.#.', '..#']);
+  assert.equal(regions.length, 3);
+  assert.ok(regions.every(r => r.area === 1 && r.outer.length === 4 && r.holes.length === 0));
+
+  // Kept pixels are the complement, so a kept diagonal is one hole.
+  const holes = vectorize(['#####', '#.###', '##.##', '#####']);
+  assert.equal(holes.length, 1);
+  assert.equal(holes[0].holes.length, 1);
+  assert.equal(holes[0].area, 18);
+});
+
+test('rings smaller than minArea are dropped', () => {
+  const { rgba, width, height } = fromRows(['#...', '....', '..##', '..##']);
+  assert.deepEqual(vectorizeAlpha(rgba, width, height, { minArea: 2 }).map(r => r.area), [4]);
+});
@@ -0,0 +1,258 @@
+/** A closed ring of [x, y] pixel-corner coordinates, y down, without a repeated end point. */
+export type Ring = [number, number][];
+
+export interface VectorRegion {
+  outer: Ring;
+  holes: Ring[];
+  area: number; // Punched pixels, holes excluded
+  bbox: [number, number, number, number]; // x, y, width, height
+}
+
+export interface VectorizeOptions {
+  threshold?: number; // Alpha below this counts as punched
+  tolerance?: number; // Douglas-Peucker tolerance in pixels
+  minArea?: number; // Rings enclosing fewer pixels are dropped
+}
+
+const DEFAULTS: Required<VectorizeOptions> = { threshold: 128, tolerance: 1.5, minArea: 16 };
+
+// Edge directions in image space: right, down, left, up.
+const DX = [1, 0, -1, 0];
+const DY = [0, 1, 0, -1];
+
+/** Shoelace area; positive for rings that run clockwise on screen. */
+const signedArea = (ring: Ring): number => {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+  }
+  return sum / 2;
+};
+
+/**
+ * Follows the pixel edges between punched and kept pixels into closed rings.
+ * Edges run with the punched side on the right, so outlines come out
+ * clockwise and holes anticlockwise. At a diagonal touch the walk turns
+ * right, keeping regions 4-connected. Only corners are recorded.
+ */
+const traceRings = (punched: Uint8Array, w: number, h: number): Ring[] => {
+  const inside = (x: number, y: number) => x >= 0 && y >= 0 && x < w && y < h && punched[y * w + x] === 1;
+  const stride = w + 1;
+  // Each vertex has at most one outgoing edge per direction: bit d of `out`.
+  const out = new Uint8Array(stride * (h + 1));
+
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (!inside(x, y)) continue;
+      if (!inside(x, y - 1)) out[y * stride + x] |= 1 << 0;
+      if (!inside(x + 1, y)) out[y * stride + x + 1] |= 1 << 1;
+      if (!inside(x, y + 1)) out[(y + 1) * stride + x + 1] |= 1 << 2;
+      if (!inside(x - 1, y)) out[(y + 1) * stride + x] |= 1 << 3;
+    }
+  }
+
+  const rings: Ring[] = [];
+  for (let start = 0; start < out.length; start++) {
+    while (out[start]) {
+      let dir = Math.log2(out[start] & -out[start]);
+      let v = start;
+      const ring: Ring = [];
+      let prevDir = -1;
+      do {
+        out[v] &= ~(1 << dir);
+        if (dir !== prevDir) ring.push([v % stride, Math.floor(v / stride)]);
+        prevDir = dir;
+        v += DY[dir] * stride + DX[dir];
+        const options = out[v];
+        if (!options) break;
+        const right = (dir + 1) % 4;
+        const left = (dir + 3) % 4;
+        dir = options & (1 << right) ? right : options & (1 << dir) ? dir : left;
+      } while (true);
+      if (ring.length >= 4) rings.push(ring);
+    }
+  }
+  return rings;
+};
+
+const perpendicularDistance = (p: [number, number], a: [number, number], b: [number, number]) => {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const len = Math.hypot(dx, dy);
+  if (len === 0) return Math.hypot(p[0] - a[0], p[1] - a[1]);
+  return Math.abs(dy * p[0] - dx * p[1] + b[0] * a[1] - b[1] * a[0]) / len;
+};
+
+const simplifyPath = (points: Ring, tolerance: number): Ring => {
+  if (points.length < 3) return points;
+  const keep = new Uint8Array(points.length);
+  keep[0] = keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length) {
+    const [first, last] = stack.pop()!;
+    let maxDist = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const d = perpendicularDistance(points[i], points[first], points[last]);
+      if (d > maxDist) {
+        maxDist = d;
+        index = i;
+      }
+    }
+    if (index >= 0 && maxDist > tolerance) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+};
+
+/** Douglas-Peucker on a closed ring, split at the point farthest from the first. */
+export const simplifyRing = (ring: Ring, tolerance: number): Ring => {
+  if (ring.length <= 4) return ring;
+  let far = 0;
+  let farDist = -1;
+  ring.forEach(([x, y], i) => {
+    const d = (x - ring[0][0]) ** 2 + (y - ring[0][1]) ** 2;
+    if (d > farDist) {
+      farDist = d;
+      far = i;
+    }
+  });
+  const a = simplifyPath(ring.slice(0, far + 1), tolerance);
+  const b = simplifyPath([...ring.slice(far), ring[0]], tolerance);
+  const merged = [...a, ...b.slice(1, -1)];
+  return merged.length >= 3 ? merged : ring;
+};
+
+const containsPoint = (ring: Ring, x: number, y: number): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+const ringBounds = (ring: Ring): [number, number, number, number] => {
+  const xs = ring.map(p => p[0]);
+  const ys = ring.map(p => p[1]);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return [x, y, Math.max(...xs) - x, Math.max(...ys) - y];
+};
+
+/**
+ * Turns the punched (transparent) part of an RGBA image into polygons with
+ * holes, largest first. Area and bounding box are measured before
+ * simplification, so they match the raster exactly.
+ */
+export const vectorizeAlpha = (rgba: Uint8ClampedArray, width: number, height: number, options: VectorizeOptions = {}): VectorRegion[] => {
+  const { threshold, tolerance, minArea } = { ...DEFAULTS, ...options };
+  const punched = new Uint8Array(width * height);
+  for (let p = 0, i = 3; p < punched.length; p++, i += 4) punched[p] = rgba[i] < threshold ? 1 : 0;
+
+  const rings = traceRings(punched, width, height).map(ring => ({ ring, area: signedArea(ring) }));
+  const outers = rings.filter(r => r.area >= minArea).sort((a, b) => a.area - b.area);
+  const holes = rings.filter(r => -r.area >= minArea);
+
+  const regions = outers.map(({ ring, area }) => ({ ring, area, holes: [] as Ring[], holeArea: 0 }));
+  for (const hole of holes) {
+    // Probe the centre of the hole's first pixel edge, nudged into the hole.
+    const [x0, y0] = hole.ring[0];
+    const [x1, y1] = hole.ring[1];
+    const px = (x0 + x1) / 2 + Math.sign(y1 - y0) * 0.5;
+    const py = (y0 + y1) / 2 - Math.sign(x1 - x0) * 0.5;
+    // Outers are sorted smallest first, so this finds the tightest container.
+    const owner = regions.find(r => containsPoint(r.ring, px, py));
+    if (owner) {
+      owner.holes.push(hole.ring);
+      owner.holeArea += -hole.area;
+    }
+  }
+
+  return regions
+    .map(({ ring, area, holes, holeArea }) => ({
+      outer: simplifyRing(ring, tolerance),
+      holes: holes.map(h => simplifyRing(h, tolerance)),
+      area: area - holeArea,
+      bbox: ringBounds(ring)
+    }))
+    .sort((a, b) => b.area - a.area);
+};
+
+const pathData = (ring: Ring) => `M${ring.map(([x, y]) => `${x} ${y}`).join('L')}Z`;
+
+/**
+ * Two clip paths: `alphapunch-punched` covers the transparent regions and
+ * `alphapunch-kept` the rest of the frame, for use as a CSS mask.
+ */
+export const regionsToSvg = (regions: VectorRegion[], width: number, height: number): string => {
+  const punched = regions.map(r => [r.outer, ...r.holes].map(pathData).join('')).join('');
+  const frame = `M0 0H${width}V${height}H0Z`;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    '  <defs>',
+    `    <clipPath id="alphapunch-punched" clipPathUnits="userSpaceOnUse"><path clip-rule="evenodd" d="${punched}"/></clipPath>`,
+    `    <clipPath id="alphapunch-kept" clipPathUnits="userSpaceOnUse"><path clip-rule="evenodd" d="${frame}${punched}"/></clipPath>`,
+    '  </defs>',
+    `  <path fill="#000" fill-rule="evenodd" d="${punched}"/>`,
+    '</svg>'
+  ].join('\n');
+};
+
+const closeRing = (ring: Ring): Ring => [...ring, ring[0]];
+
+/** A GeoJSON FeatureCollection in image pixel coordinates (y down), one Polygon per region. */
+export const regionsToGeoJson = (regions: VectorRegion[], width: number, height: number) => ({
+  type: 'FeatureCollection',
+  properties: { width, height, units: 'pixels', yAxis: 'down' },
+  features: regions.map((region, i) => ({
+    type: 'Feature',
+    id: i + 1,
+    properties: { area: region.area, bbox: region.bbox },
+    geometry: { type: 'Polygon', coordinates: [region.outer, ...region.holes].map(closeRing) }
+  }))
+});
+
+/**
+ * COCO polygons cannot carry holes, so each hole is spliced into its outline
+ * through a zero-width cut from the nearest outline vertex. Filled with the
+ * even-odd rule the result is the region with its holes left open.
+ */
+const bridgeHoles = (outer: Ring, holes: Ring[]): Ring => {
+  let ring = outer;
+  for (const hole of holes) {
+    let best = [0, 0];
+    let bestDist = Infinity;
+    ring.forEach(([ox, oy], i) => {
+      hole.forEach(([hx, hy], j) => {
+        const d = (ox - hx) ** 2 + (oy - hy) ** 2;
+        if (d < bestDist) {
+          bestDist = d;
+          best = [i, j];
+        }
+      });
+    });
+    const [i, j] = best;
+    const loop = [...hole.slice(j), ...hole.slice(0, j), hole[j]];
+    ring = [...ring.slice(0, i + 1), ...loop, ...ring.slice(i)];
+  }
+  return ring;
+};
+
+export const regionsToCoco = (regions: VectorRegion[], width: number, height: number, fileName: string) => ({
+  info: { description: 'AlphaPunch punched regions', date_created: new Date().toISOString() },
+  images: [{ id: 1, width, height, file_name: fileName }],
+  categories: [{ id: 1, name: 'punched', supercategory: 'region' }],
+  annotations: regions.map((region, i) => ({
+    id: i + 1,
+    image_id: 1,
+    category_id: 1,
+    segmentation: [bridgeHoles(region.outer, region.holes).flat()],
+    area: region.area,
+    bbox: region.bbox,
+    iscrowd: 0
+  }))
+});
@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { HistoryItem } from '../types';
+import { exportHistoryArchive } from './historyStore';
+import { LocalizedError } from './localizedError';
+import { createZip, readZip } from './zip';
+
+const bytes = async (blob: Blob) => [...new Uint8Array(await blob.arrayBuffer())];
+
+test('entries round-trip with their names and bytes', async () => {
+  const binary = Uint8Array.from({ length: 300 }, (_, i) => (i * 37) & 0xff);
+  const archive = await createZip([
+    { name: 'manifest.json', data: new Blob(['{"a":1}']) },
+    { name: 'items/ảnh đã cắt.png', data: new Blob([binary]) },
+    { name: 'empty.txt', data: new Blob([]) }
+  ]);
+  const entries = await readZip(archive);
+  assert.deepEqual(entries.map(e => e.name), ['manifest.json', 'items/ảnh đã cắt.png', 'empty.txt']);
+  assert.equal(await entries[0].data.text(), '{"a":1}');
+  assert.deepEqual(await bytes(entries[1].data), [...binary]);
+  assert.equal(entries[2].data.size, 0);
+});
+
+test('the stored CRC matches the standard checksum', async () => {
+  const archive = new DataView(await (await createZip([{ name: 'a', data: new Blob(['hello']) }])).arrayBuffer());
+  assert.equal(archive.getUint32(14, true), 0x3610a686);
+});
+
+test('deflated entries are inflated on read', async () => {
+  const text = 'alpha punch '.repeat(50);
+  const deflated = await new Response(new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'))).blob();
+  const archive = new Uint8Array(await (await createZip([{ name: 'notes.txt', data: deflated }])).arrayBuffer());
+  // Mark the entry as deflated in both the local and the central header.
+  const view = new DataView(archive.buffer);
+  view.setUint16(8, 8, true);
+  view.setUint16(30 + 'notes.txt'.length + deflated.size + 10, 8, true);
+  const [entry] = await readZip(new Blob([archive]));
+  assert.equal(await entry.data.text(), text);
+});
+
+test('a file that is not a ZIP is rejected', async () => {
+  await assert.rejects(readZip(new Blob(['not an archive'])), (e: unknown) => e instanceof LocalizedError && e.key === 'archive.invalid');
+});
+
+test('an exported history archive carries a manifest and every image', async () => {
+  const png = (label: string) => new Blob([label], { type: 'image/png' });
+  const item: HistoryItem = {
+    id: 'h1',
+    timestamp: 1700000000000,
+    original: new Blob(['source'], { type: 'image/jpeg' }),
+    generated: png('cut'),
+    thumbnail: png('thumb'),
+    promptUsed: 'windows (touched up)',
+    pinned: true,
+    size: 0
+  };
+  const entries = await readZip(await exportHistoryArchive([item]));
+  const files = new Map(entries.map(e => [e.name, e.data]));
+
+  const manifest = JSON.parse(await files.get('manifest.json')!.text());
+  assert.equal(manifest.format, 'alphapunch-history');
+  const [record] = manifest.items;
+  assert.equal(record.promptUsed, item.promptUsed);
+  assert.equal(record.pinned, true);
+  assert.deepEqual(Object.keys(record.files), ['original', 'generated', 'thumbnail']);
+  assert.equal(record.files.original.path, 'items/h1/original.jpeg');
+  assert.equal(await files.get(record.files.generated.path)!.text(), 'cut');
+  assert.equal(await files.get(record.files.thumbnail.path)!.text(), 'thumb');
+});
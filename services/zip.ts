@@ -0,0 +1,144 @@
+/**
+ * Minimal ZIP reader/writer. Archives are written uncompressed (method 0),
+ * since the payloads are already-compressed images; the reader also accepts
+ * deflated entries where DecompressionStream is available.
+ */
+
+import { LocalizedError } from './localizedError';
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+const UTF8_FLAG = 0x0800;
+
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(new Uint8Array(await entry.data.arrayBuffer()));
+    const size = entry.data.size;
+
+    const local = new DataView(new ArrayBuffer(30 + name.length));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, 0, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    new Uint8Array(local.buffer).set(name, 30);
+
+    const header = new DataView(new ArrayBuffer(46 + name.length));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, UTF8_FLAG, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, size, true);
+    header.setUint32(24, size, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    new Uint8Array(header.buffer).set(name, 46);
+
+    parts.push(local.buffer, entry.data);
+    central.push(new Uint8Array(header.buffer));
+    offset += local.byteLength + size;
+  }
+
+  const centralSize = central.reduce((sum, h) => sum + h.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+const inflateRaw = async (data: Blob): Promise<Blob> => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new LocalizedError('archive.noDecompression');
+  }
+  return new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+};
+
+/** Lists the files of a ZIP archive; entry data is sliced lazily from `archive`. */
+export const readZip = async (archive: Blob): Promise<ZipEntry[]> => {
+  const tailSize = Math.min(archive.size, 22 + 0xffff);
+  const tail = new DataView(await archive.slice(archive.size - tailSize).arrayBuffer());
+  let endOffset = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new LocalizedError('archive.invalid');
+
+  const count = tail.getUint16(endOffset + 10, true);
+  const dirSize = tail.getUint32(endOffset + 12, true);
+  const dirOffset = tail.getUint32(endOffset + 16, true);
+  const dir = new DataView(await archive.slice(dirOffset, dirOffset + dirSize).arrayBuffer());
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  let p = 0;
+  for (let n = 0; n < count; n++) {
+    if (dir.getUint32(p, true) !== 0x02014b50) throw new LocalizedError('archive.corrupt');
+    const method = dir.getUint16(p + 10, true);
+    const compressedSize = dir.getUint32(p + 20, true);
+    const nameLength = dir.getUint16(p + 28, true);
+    const extraLength = dir.getUint16(p + 30, true);
+    const commentLength = dir.getUint16(p + 32, true);
+    const localOffset = dir.getUint32(p + 42, true);
+    const name = decoder.decode(new Uint8Array(dir.buffer, p + 46, nameLength));
+    p += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    const local = new DataView(await archive.slice(localOffset, localOffset + 30).arrayBuffer());
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    const raw = archive.slice(dataStart, dataStart + compressedSize);
+
+    if (method === 0) entries.push({ name, data: raw });
+    else if (method === 8) entries.push({ name, data: await inflateRaw(raw) });
+    else throw new LocalizedError('archive.unsupportedMethod', { method, name });
+  }
+  return entries;
+};
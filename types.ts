@@ -1,24 +1,224 @@
+import type { MessageKey } from './services/i18n';
+
 export enum AppStatus {
   IDLE = 'IDLE',
   PROCESSING = 'PROCESSING',
   SUCCESS = 'SUCCESS',
-  ERROR = 'ERROR'
+  ERROR = 'ERROR',
+  RATE_LIMITED = 'RATE_LIMITED',
+  BLOCKED = 'BLOCKED',
+  NO_IMAGE = 'NO_IMAGE',
+  NETWORK_ERROR = 'NETWORK_ERROR',
+  INVALID_KEY = 'INVALID_KEY',
+  TIMED_OUT = 'TIMED_OUT'
+}
+
+export type GenerationErrorKind = 'quota' | 'safety' | 'no_image' | 'network' | 'auth' | 'timeout' | 'unknown';
+
+export interface GenerationSettings {
+  timeoutSec: number; // 0 disables the timeout
+  maxRetries: number; // Extra attempts for transient failures
+}
+
+/**
+ * 'original' applies the model's matte to the source photo;
+ * 'regenerated' ships the model's redrawn pixels.
+ */
+export type OutputMode = 'original' | 'regenerated';
+
+export interface KeyingSettings {
+  keyColor: string; // Hex, e.g. #00FF00
+  tolerance: number; // 0-100, % of key-to-grey chroma distance fully removed
+  softness: number; // 0-100, width of the graded alpha ramp
+  choke: number; // px, positive erodes the kept area, negative dilates
+  feather: number; // px, matte blur radius
+  despill: number; // 0-100, strength of key-colour cast removal
+}
+
+export interface ProcessingProgress {
+  stage: 'generating' | 'keying';
+  completed: number; // Tiles keyed so far
+  total: number; // Total tiles, 0 until the worker reports
+  attempt?: number; // Set while a failed generation is being retried
 }
 
 export interface HistoryItem {
   id: string;
   timestamp: number;
-  original: string; // Base64
-  generated: string; // Base64 (Transparent)
+  original: Blob;
+  generated: Blob; // Transparent PNG
   promptUsed: string;
-  thumbnail: string; // Small preview
+  thumbnail: Blob; // Downscaled preview
+  modelOutput?: Blob; // Green-keyed model output, for re-keying
+  composite?: Blob; // Cut flattened over a replacement background
+  keying?: KeyingSettings;
+  usePro?: boolean;
+  outputMode?: OutputMode;
+  pinned: boolean; // Pinned items are never evicted by the storage quota
+  size: number; // Total bytes of all stored blobs
+}
+
+export type MaskOperation = 'union' | 'intersect' | 'subtract';
+
+/** One generation over the shared source; passes combine top to bottom. */
+export interface MaskPass {
+  id: string;
+  label: string;
+  prompt: string;
+  operation: MaskOperation; // Ignored for the first enabled pass, which is the base
+  enabled: boolean;
+  modelOutput?: string; // Base64 green-keyed output, once generated
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Corners in order top-left, top-right, bottom-right, bottom-left. */
+export type Quad = [Point, Point, Point, Point];
+
+/** A punched hole in the cut, in full-resolution image pixels. */
+export interface WindowRegion {
+  id: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  quad: Quad; // The pane's real corners; the bounding box when unwarped
+}
+
+export interface CompositeSettings {
+  offsetX: number; // Fraction of the output width
+  offsetY: number; // Fraction of the output height
+  scale: number; // 1 = just covers the frame
+  blur: number; // Pixels at full resolution
+  colorMatch: number; // 0-100
+}
+
+/** A finished cut plus what is known about how it was made, for export. */
+export interface ExportSubject {
+  image: string; // Base64 (Transparent)
+  original?: string | null; // Base64
+  promptUsed?: string;
+  usePro?: boolean;
+  outputMode?: OutputMode;
+  keying?: KeyingSettings;
+}
+
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  attempts: number;
+  error?: string;
+  errorKind?: GenerationErrorKind; // Lets the UI show a translated message
+  result?: Blob; // Transparent PNG
+}
+
+/** A source image paired with its hand-made matte (white = kept). */
+export interface EvalSample {
+  id: string;
+  name: string;
+  source: File;
+  truth: File;
+}
+
+/** One prompt/model combination under test. */
+export interface EvalConfig {
+  id: string;
+  presetId: string;
+  usePro: boolean;
+}
+
+export interface MaskMetrics {
+  iou: number; // 0-1, of the punched region
+  boundaryF: number; // 0-1, F-score of punched-region edges within a small tolerance
+  alphaError: number; // 0-1, mean absolute alpha difference
+}
+
+export interface EvalResult {
+  sampleId: string;
+  configId: string;
+  status: BatchItemStatus;
+  metrics?: MaskMetrics;
+  diff?: string; // Base64 PNG: false positives red, false negatives blue
+  error?: string;
+  errorKind?: GenerationErrorKind;
+  errorKey?: MessageKey; // Failures found before any provider call
 }
 
 export interface PresetPrompt {
   id: string;
   label: string;
-  text: string;
+  text: string; // May contain {{variable}} placeholders
+  description: string;
+  variables?: Record<string, string>; // Default values for the preset's own placeholders
+}
+
+export interface EditImageRequest {
+  image: string; // Base64
+  mimeType: string;
+  prompt: string;
+  usePro: boolean;
+  signal?: AbortSignal;
+}
+
+export interface AnalyzeImageRequest {
+  image: string; // Base64
+  mimeType: string;
+  presets: Pick<PresetPrompt, 'id' | 'label' | 'description'>[]; // Candidates for the recommendation
+  signal?: AbortSignal;
+}
+
+export type SceneType = 'interior' | 'exterior' | 'portrait' | 'product' | 'other';
+
+/** A box in fractions of the image size (0-1). */
+export interface NormalizedBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedWindow {
+  id: number; // 1-based, in reading order
+  box: NormalizedBox;
+}
+
+export interface SceneAnalysis {
+  sceneType: SceneType;
+  summary: string;
+  windows: DetectedWindow[];
+  hasSubject: boolean;
+  recommendedPresetId: string | null;
+}
+
+/** Decoded pixels, RGBA row by row; the pipeline's common currency outside the DOM. */
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/** Converts between data URLs and pixels: canvas in the browser, pure JS in Node. */
+export interface ImageCodec {
+  decode: (dataUrl: string) => Promise<RasterImage>;
+  encodePng: (image: RasterImage) => Promise<string>; // Base64 data URL
+}
+
+/**
+ * A backend that paints the regions to punch in the key colour.
+ * `editImage` resolves to a Base64 image; callers key it themselves.
+ */
+export interface ImageProvider {
+  id: string;
+  label: string;
   description: string;
+  editImage: (request: EditImageRequest) => Promise<string>;
+  analyzeScene: (request: AnalyzeImageRequest) => Promise<SceneAnalysis>;
 }
 
 declare global {
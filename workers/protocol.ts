@@ -0,0 +1,25 @@
+import { KeyingSettings, OutputMode } from '../types';
+
+export interface PunchRunMessage {
+  type: 'run';
+  id: number;
+  model: Blob;
+  source: Blob | null;
+  settings: KeyingSettings;
+  mode: OutputMode;
+  targetWidth?: number;
+  targetHeight?: number;
+}
+
+export interface PunchCancelMessage {
+  type: 'cancel';
+  id: number;
+}
+
+export type PunchWorkerRequest = PunchRunMessage | PunchCancelMessage;
+
+export type PunchWorkerResponse =
+  | { type: 'progress'; id: number; completed: number; total: number }
+  | { type: 'done'; id: number; blob: Blob }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
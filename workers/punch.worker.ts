@@ -0,0 +1,135 @@
+import { applyMatte, computeMatte, despill, refineMatte } from '../services/keyer';
+import { prepareResize, resampleMatte } from '../services/raster';
+import { PunchRunMessage, PunchWorkerRequest, PunchWorkerResponse } from './protocol';
+
+// Tiles keep every getImageData buffer small; only the output canvas is full size.
+const TILE_SIZE = 1024;
+
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<PunchWorkerRequest>) => void) | null;
+  postMessage: (message: PunchWorkerResponse) => void;
+};
+
+// Cancels are only recorded for jobs still running, so neither set outlives its job.
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
+const context2d = (canvas: OffscreenCanvas): OffscreenCanvasRenderingContext2D => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('OffscreenCanvas context not available');
+  return ctx;
+};
+
+// Lets queued cancel messages through between tiles.
+const yieldToEvents = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+class JobCancelled extends Error {}
+
+const runJob = async (job: PunchRunMessage) => {
+  const { id, settings, mode } = job;
+  const checkCancelled = () => {
+    if (cancelled.has(id)) throw new JobCancelled();
+  };
+
+  const model = await createImageBitmap(job.model);
+  const source = job.source ? await createImageBitmap(job.source) : null;
+
+  try {
+    if (mode === 'original' && !source) throw new Error('Source image required for original pixel output');
+
+    const w = source?.width ?? job.targetWidth ?? model.width;
+    const h = source?.height ?? job.targetHeight ?? model.height;
+
+    // Same steps as `keyRaster` in services/pipeline.ts, a tile at a time: the
+    // raw matte is pulled once at model resolution, and each tile resamples
+    // its part of it (and of the redraw) with the shared raster filters, so
+    // the app and the CLI produce the same pixels for the same settings.
+    const modelCtx = context2d(new OffscreenCanvas(model.width, model.height));
+    modelCtx.drawImage(model, 0, 0);
+    const modelRaster = { width: model.width, height: model.height, data: modelCtx.getImageData(0, 0, model.width, model.height).data };
+    const rawMatte = computeMatte(modelRaster.data, settings);
+    // The redraw is premultiplied once per job, not once per tile.
+    const resizeModel = mode === 'regenerated' ? prepareResize(modelRaster, w, h) : null;
+
+    const output = new OffscreenCanvas(w, h);
+    const outputCtx = context2d(output);
+    const margin = Math.ceil(Math.abs(settings.choke) + settings.feather) + 2;
+
+    const cols = Math.ceil(w / TILE_SIZE);
+    const rows = Math.ceil(h / TILE_SIZE);
+    const total = cols * rows;
+    let completed = 0;
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        checkCancelled();
+
+        const x = col * TILE_SIZE;
+        const y = row * TILE_SIZE;
+        const tw = Math.min(TILE_SIZE, w - x);
+        const th = Math.min(TILE_SIZE, h - y);
+
+        // Refinement reads neighbours, so the matte is built on a padded tile.
+        const px = Math.max(0, x - margin);
+        const py = Math.max(0, y - margin);
+        const pw = Math.min(w, x + tw + margin) - px;
+        const ph = Math.min(h, y + th + margin) - py;
+
+        const paddedMatte = resampleMatte(rawMatte, model.width, model.height, w, h, { x: px, y: py, width: pw, height: ph });
+        const refined = refineMatte(paddedMatte, pw, ph, settings);
+
+        const tileMatte = new Uint8ClampedArray(tw * th);
+        for (let ty = 0; ty < th; ty++) {
+          const srcRow = (ty + y - py) * pw + (x - px);
+          tileMatte.set(refined.subarray(srcRow, srcRow + tw), ty * tw);
+        }
+
+        let tile: ImageData;
+        if (mode === 'original') {
+          const tileCtx = context2d(new OffscreenCanvas(tw, th));
+          tileCtx.drawImage(source!, x, y, tw, th, 0, 0, tw, th);
+          tile = tileCtx.getImageData(0, 0, tw, th);
+        } else {
+          const resized = resizeModel!({ x, y, width: tw, height: th });
+          tile = new ImageData(resized.data, tw, th);
+        }
+        applyMatte(tile.data, tileMatte);
+        if (mode === 'regenerated') despill(tile.data, settings);
+        outputCtx.putImageData(tile, x, y);
+
+        completed++;
+        workerScope.postMessage({ type: 'progress', id, completed, total });
+        await yieldToEvents();
+      }
+    }
+
+    checkCancelled();
+    return await output.convertToBlob({ type: 'image/png' });
+  } finally {
+    model.close();
+    source?.close();
+  }
+};
+
+workerScope.onmessage = async (event) => {
+  const message = event.data;
+  if (message.type === 'cancel') {
+    if (running.has(message.id)) cancelled.add(message.id);
+    return;
+  }
+
+  running.add(message.id);
+  try {
+    const blob = await runJob(message);
+    workerScope.postMessage({ type: 'done', id: message.id, blob });
+  } catch (e: any) {
+    if (e instanceof JobCancelled) {
+      workerScope.postMessage({ type: 'cancelled', id: message.id });
+    } else {
+      workerScope.postMessage({ type: 'error', id: message.id, message: e?.message || 'Worker failed to process image' });
+    }
+  } finally {
+    running.delete(message.id);
+    cancelled.delete(message.id);
+  }
+};